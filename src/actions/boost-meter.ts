@@ -0,0 +1,235 @@
+import { action, SingletonAction, WillAppearEvent, WillDisappearEvent, DidReceiveSettingsEvent } from "@elgato/streamdeck";
+import { getState, addStateListener, removeStateListener, isConnected, matchesClient, RuneLiteState, SkillStats } from '../state-server';
+import { createNoSignalOverlay } from '../no-signal';
+import { recordRenderTiming } from '../metrics';
+import { formatSkillName } from '../skills';
+
+/**
+ * Map to store boost meter button instances by context
+ */
+const activeButtons = new Map<string, { action: any; settings: BoostMeterSettings }>();
+
+/**
+ * Last image sent to each button to avoid unnecessary image updates
+ */
+const lastImages = new Map<string, string>();
+
+/**
+ * How long each half of a pulse lasts
+ */
+const PULSE_INTERVAL_MS = 500;
+
+/**
+ * Timer flipping the pulse phase while any key is at or below its threshold
+ */
+let pulseTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Whether pulsing keys are currently drawn highlighted
+ */
+let pulsePhase = false;
+
+/**
+ * Fill and text colors for boosted, drained and base levels
+ */
+const BOOST_COLORS = {
+	boosted: { fill: '#1E9E3A', text: '#00FF00' },
+	drained: { fill: '#B00905', text: '#FF3030' },
+	base: { fill: '#6E6E6E', text: '#FFFFFF' },
+};
+
+/**
+ * Gets the colors for a skill's boost state
+ */
+function getBoostColors(skill: SkillStats): { fill: string; text: string } {
+	if (skill.boostedLevel > skill.level) return BOOST_COLORS.boosted;
+	if (skill.boostedLevel < skill.level) return BOOST_COLORS.drained;
+	return BOOST_COLORS.base;
+}
+
+/**
+ * Returns true when a key has a threshold and the boosted level is at or below it
+ */
+function isBelowThreshold(skill: SkillStats | undefined, settings: BoostMeterSettings): boolean {
+	const threshold = parseInt(settings.threshold || '', 10);
+	return skill !== undefined && !isNaN(threshold) && skill.boostedLevel <= threshold;
+}
+
+/**
+ * Creates an orb image comparing the boosted level against the real level
+ */
+function createBoostMeterImage(skillName: BoostSkill, skill: SkillStats | undefined, highlighted: boolean, connected: boolean): string {
+	const boostedLevel = skill?.boostedLevel || 0;
+	const level = skill?.level || 1;
+	const colors = skill ? getBoostColors(skill) : BOOST_COLORS.base;
+
+	// A full orb is the real level; boosts above it show as the fill color alone
+	const fillPercent = Math.max(0, Math.min(1, boostedLevel / level));
+	const fillHeight = Math.round(144 * fillPercent);
+	const fillY = 144 - fillHeight;
+
+	let svg = `<svg width="144" height="144" xmlns="http://www.w3.org/2000/svg">`;
+
+	svg += `<defs>`;
+	svg += `<radialGradient id="orbGradient" cx="50%" cy="50%" r="50%" fx="30%" fy="25%">`;
+	svg += `<stop offset="0%" stop-color="#000000" stop-opacity="0"/>`;
+	svg += `<stop offset="40%" stop-color="#000000" stop-opacity="0.3"/>`;
+	svg += `<stop offset="70%" stop-color="#000000" stop-opacity="0.6"/>`;
+	svg += `<stop offset="90%" stop-color="#000000" stop-opacity="0.85"/>`;
+	svg += `<stop offset="100%" stop-color="#000000" stop-opacity="0.95"/>`;
+	svg += `</radialGradient>`;
+	svg += `</defs>`;
+
+	svg += `<rect width="144" height="144" fill="#000000"/>`;
+	svg += `<rect x="0" y="${fillY}" width="144" height="${fillHeight}" fill="${colors.fill}"/>`;
+	svg += `<circle cx="72" cy="72" r="72" fill="url(#orbGradient)"/>`;
+	svg += `<circle cx="72" cy="72" r="68" fill="none" stroke="#3A332A" stroke-width="6"/>`;
+
+	if (highlighted) {
+		svg += `<rect x="3" y="3" width="138" height="138" fill="none" stroke="#FFD700" stroke-width="6"/>`;
+	}
+
+	svg += `<text x="72" y="36" font-family="Arial" font-size="16" font-weight="bold" text-anchor="middle" stroke="#000000" stroke-width="3" fill="none">${formatSkillName(skillName)}</text>`;
+	svg += `<text x="72" y="36" font-family="Arial" font-size="16" font-weight="bold" text-anchor="middle" fill="#FF981F">${formatSkillName(skillName)}</text>`;
+
+	if (skill && connected) {
+		svg += `<text x="72" y="84" font-family="Arial" font-size="40" font-weight="bold" text-anchor="middle" stroke="#000000" stroke-width="3" fill="none">${boostedLevel}</text>`;
+		svg += `<text x="72" y="84" font-family="Arial" font-size="40" font-weight="bold" text-anchor="middle" fill="${colors.text}">${boostedLevel}</text>`;
+		svg += `<text x="72" y="114" font-family="Arial" font-size="20" font-weight="bold" text-anchor="middle" stroke="#000000" stroke-width="3" fill="none">/${level}</text>`;
+		svg += `<text x="72" y="114" font-family="Arial" font-size="20" font-weight="bold" text-anchor="middle" fill="#FFFFFF">/${level}</text>`;
+	}
+
+	if (!connected) {
+		svg += createNoSignalOverlay();
+	}
+
+	svg += `</svg>`;
+
+	const svgBase64 = Buffer.from(svg).toString('base64');
+	return `data:image/svg+xml;base64,${svgBase64}`;
+}
+
+/**
+ * Starts or stops the pulse timer depending on whether any key needs to pulse
+ */
+function setPulsing(pulsing: boolean): void {
+	if (pulsing && !pulseTimer) {
+		pulseTimer = setInterval(() => {
+			pulsePhase = !pulsePhase;
+			updateBoostMeters();
+		}, PULSE_INTERVAL_MS);
+	} else if (!pulsing && pulseTimer) {
+		clearInterval(pulseTimer);
+		pulseTimer = null;
+		pulsePhase = false;
+	}
+}
+
+/**
+ * State slices this action renders from
+ */
+const STATE_SELECTORS = ['stats.skills'];
+
+/**
+ * State listener function
+ */
+function onStateUpdate(_state: RuneLiteState, clientId?: string): void {
+	updateBoostMeters(clientId);
+}
+
+/**
+ * Boost Meter action
+ */
+@action({ UUID: "com.catagris.runelite.boostmeter" })
+export class BoostMeter extends SingletonAction<BoostMeterSettings> {
+	override async onWillAppear(ev: WillAppearEvent<BoostMeterSettings>): Promise<void> {
+		const settings = ev.payload.settings;
+
+		if (!settings.skill) {
+			settings.skill = 'strength';
+			await ev.action.setSettings(settings);
+		}
+
+		// Register listener if first button
+		if (activeButtons.size === 0) {
+			addStateListener(onStateUpdate, STATE_SELECTORS);
+		}
+
+		activeButtons.set(ev.action.id, {
+			action: ev.action,
+			settings: settings
+		});
+
+		// Immediately render with current state
+		updateBoostMeters();
+	}
+
+	override async onWillDisappear(ev: WillDisappearEvent<BoostMeterSettings>): Promise<void> {
+		activeButtons.delete(ev.action.id);
+		lastImages.delete(ev.action.id);
+
+		if (activeButtons.size === 0) {
+			removeStateListener(onStateUpdate);
+			setPulsing(false);
+		}
+	}
+
+	override async onDidReceiveSettings(ev: DidReceiveSettingsEvent<BoostMeterSettings>): Promise<void> {
+		const settings = ev.payload.settings;
+
+		const buttonData = activeButtons.get(ev.action.id);
+		if (buttonData) {
+			buttonData.settings = settings;
+		}
+
+		updateBoostMeters();
+	}
+}
+
+/**
+ * Updates the boost meter buttons showing a client, or all buttons if no client is given
+ */
+async function updateBoostMeters(clientId?: string): Promise<void> {
+	if (activeButtons.size === 0) return;
+
+	const startedAt = performance.now();
+
+	await Promise.all(
+		Array.from(activeButtons.entries())
+			.filter(([, buttonData]) => matchesClient(buttonData.settings.client, clientId))
+			.map(async ([id, buttonData]) => {
+				try {
+					const settings = buttonData.settings;
+					const skillName = settings.skill || 'strength';
+					const skill = getState(settings.client).stats?.skills?.[skillName];
+					const connected = isConnected(settings.client);
+					const highlighted = pulsePhase && connected && isBelowThreshold(skill, settings);
+
+					// Only update image if it changed
+					const image = createBoostMeterImage(skillName, skill, highlighted, connected);
+					if (lastImages.get(id) !== image) {
+						await buttonData.action.setImage(image);
+						lastImages.set(id, image);
+					}
+				} catch (error) {
+					console.log(`[BoostMeter] Error updating button ${id}:`, error);
+				}
+			})
+	);
+
+	// Pulse while any key, on any client, is at or below its threshold
+	setPulsing(Array.from(activeButtons.values()).some(({ settings }) =>
+		isConnected(settings.client) && isBelowThreshold(getState(settings.client).stats?.skills?.[settings.skill || 'strength'], settings)
+	));
+
+	recordRenderTiming('BoostMeter', performance.now() - startedAt);
+}
+
+type BoostSkill = 'attack' | 'strength' | 'defence' | 'ranged' | 'magic' | 'prayer';
+
+type BoostMeterSettings = {
+	skill?: BoostSkill;
+	/** Boosted level at or below which the key pulses; empty to never pulse */
+	threshold?: string;
+	client?: string;
+};
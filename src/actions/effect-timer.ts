@@ -0,0 +1,313 @@
+import { action, SingletonAction, WillAppearEvent, WillDisappearEvent, DidReceiveSettingsEvent } from "@elgato/streamdeck";
+import { getState, addStateListener, removeStateListener, isConnected, matchesClient, resolveClientId, EffectTimer as Effect, RuneLiteState } from '../state-server';
+import { createNoSignalOverlay } from '../no-signal';
+import { escapeXml } from '../svg';
+import { getEffectIcon } from '../effects';
+import { recordRenderTiming } from '../metrics';
+
+/**
+ * Map to store effect timer button instances by context
+ */
+const activeButtons = new Map<string, { action: any; settings: EffectTimerSettings }>();
+
+/**
+ * Last image sent to each button to avoid unnecessary image updates
+ */
+const lastImages = new Map<string, string>();
+
+/**
+ * Effect selection that follows whichever active effect runs out first
+ */
+const MOST_URGENT = 'most_urgent';
+
+/**
+ * Default number of seconds before expiry during which the key flashes
+ */
+const DEFAULT_FLASH_SECONDS = 10;
+
+/**
+ * Length of a game tick
+ */
+const TICK_SECONDS = 0.6;
+
+/**
+ * How often keys are redrawn so the countdown runs between state updates
+ */
+const REFRESH_INTERVAL_MS = 500;
+
+/**
+ * Timer that redraws keys while any are visible
+ */
+let refreshTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Whether flashing keys are currently drawn highlighted
+ */
+let flashPhase = false;
+
+/**
+ * When each client's effect was last reported, so the countdown can continue between updates
+ */
+const receivedTimers = new Map<string, { remaining: number; duration: number; receivedAt: number }>();
+
+/**
+ * Effects each button has seen, so a missing effect can be shown as expired rather than idle
+ */
+const seenEffects = new Map<string, string>();
+
+/**
+ * An effect with its time converted to seconds and counted down to now
+ */
+type Countdown = { id: string; remainingSeconds: number; durationSeconds: number };
+
+/**
+ * Converts a reported effect to seconds, counting down from when it was reported
+ */
+function getCountdown(clientKey: string, timer: Effect, now: number): Countdown {
+	const scale = timer.unit === 'ticks' ? TICK_SECONDS : 1;
+	const remaining = timer.remaining * scale;
+	const duration = timer.duration * scale;
+
+	// Only restart the countdown when RuneLite reports a new remaining time
+	const key = `${clientKey}:${timer.id}`;
+	let received = receivedTimers.get(key);
+	if (!received || received.remaining !== remaining || received.duration !== duration) {
+		received = { remaining, duration, receivedAt: now };
+		receivedTimers.set(key, received);
+	}
+
+	return {
+		id: timer.id,
+		remainingSeconds: Math.max(0, remaining - (now - received.receivedAt) / 1000),
+		durationSeconds: duration,
+	};
+}
+
+/**
+ * Forgets the countdowns of a client's effects that are no longer reported, so an effect started again counts down afresh
+ */
+function forgetEndedTimers(clientKey: string, timers: Effect[]): void {
+	const prefix = `${clientKey}:`;
+	for (const key of receivedTimers.keys()) {
+		if (key.startsWith(prefix) && !timers.some(timer => timer.id === key.slice(prefix.length))) {
+			receivedTimers.delete(key);
+		}
+	}
+}
+
+/**
+ * Picks the countdown a key shows: its chosen effect, or the active effect with the least time left
+ */
+function selectCountdown(countdowns: Countdown[], effect: string): Countdown | undefined {
+	if (effect === MOST_URGENT) {
+		return countdowns
+			.filter(countdown => countdown.remainingSeconds > 0)
+			.sort((a, b) => a.remainingSeconds - b.remainingSeconds)[0];
+	}
+	return countdowns.find(countdown => countdown.id === effect);
+}
+
+/**
+ * Formats an effect id for display, e.g. "divine_super_combat" becomes "Divine super combat"
+ */
+function formatEffectName(id: string): string {
+	const name = id.replace(/_/g, ' ');
+	return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+/**
+ * Formats seconds as m:ss
+ */
+function formatTime(seconds: number): string {
+	const total = Math.ceil(seconds);
+	return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Builds a pie slice path covering a fraction of the key, clockwise from 12 o'clock
+ */
+function describePie(fraction: number): string {
+	const angle = fraction * 2 * Math.PI;
+	const x = 72 + 100 * Math.sin(angle);
+	const y = 72 - 100 * Math.cos(angle);
+	const largeArc = fraction > 0.5 ? 1 : 0;
+	return `M72,72 L72,-28 A100,100 0 ${largeArc} 1 ${x.toFixed(2)},${y.toFixed(2)} Z`;
+}
+
+/**
+ * Creates an effect timer image with the effect icon, a countdown sweep and the time left
+ */
+function createEffectTimerImage(effectId: string, countdown: Countdown | undefined, expired: boolean, highlighted: boolean, connected: boolean): string {
+	const iconData = getEffectIcon(countdown?.id ?? effectId);
+	const label = effectId === MOST_URGENT && !countdown ? 'No effects' : escapeXml(formatEffectName(countdown?.id ?? effectId));
+
+	let svg = `<svg width="144" height="144" xmlns="http://www.w3.org/2000/svg">`;
+
+	svg += `<rect width="144" height="144" fill="#1E1A15"/>`;
+
+	if (iconData) {
+		svg += `<image href="${iconData}" x="24" y="16" width="96" height="96" image-rendering="pixelated"${countdown && !expired ? '' : ' opacity="0.3"'}/>`;
+	} else {
+		svg += `<text x="72" y="40" font-family="Arial" font-size="15" font-weight="bold" text-anchor="middle" fill="${countdown && !expired ? '#FF981F' : '#6E6253'}">${label}</text>`;
+	}
+
+	if (countdown && !expired) {
+		// Darken the part of the effect that has already elapsed
+		const elapsed = countdown.durationSeconds > 0 ? 1 - countdown.remainingSeconds / countdown.durationSeconds : 0;
+		if (elapsed >= 1) {
+			svg += `<rect width="144" height="144" fill="#000000" opacity="0.6"/>`;
+		} else if (elapsed > 0) {
+			svg += `<path d="${describePie(elapsed)}" fill="#000000" opacity="0.6"/>`;
+		}
+	}
+
+	if (highlighted) {
+		svg += `<rect x="3" y="3" width="138" height="138" fill="none" stroke="#FF3030" stroke-width="6"/>`;
+	}
+
+	if (connected) {
+		if (countdown && !expired) {
+			const time = formatTime(countdown.remainingSeconds);
+			svg += `<text x="72" y="128" font-family="Arial" font-size="30" font-weight="bold" text-anchor="middle" stroke="#000000" stroke-width="3" fill="none">${time}</text>`;
+			svg += `<text x="72" y="128" font-family="Arial" font-size="30" font-weight="bold" text-anchor="middle" fill="${highlighted ? '#FF3030' : '#FFFFFF'}">${time}</text>`;
+		} else if (expired) {
+			svg += `<text x="72" y="128" font-family="Arial" font-size="22" font-weight="bold" text-anchor="middle" fill="#FF3030">EXPIRED</text>`;
+		}
+	}
+
+	if (!connected) {
+		svg += createNoSignalOverlay();
+	}
+
+	svg += `</svg>`;
+
+	const svgBase64 = Buffer.from(svg).toString('base64');
+	return `data:image/svg+xml;base64,${svgBase64}`;
+}
+
+/**
+ * State slices this action renders from
+ */
+const STATE_SELECTORS = ['timers'];
+
+/**
+ * State listener function
+ */
+function onStateUpdate(_state: RuneLiteState, clientId?: string): void {
+	updateEffectTimers(clientId);
+}
+
+/**
+ * Effect Timer action
+ */
+@action({ UUID: "com.catagris.runelite.effecttimer" })
+export class EffectTimer extends SingletonAction<EffectTimerSettings> {
+	override async onWillAppear(ev: WillAppearEvent<EffectTimerSettings>): Promise<void> {
+		const settings = ev.payload.settings;
+
+		if (!settings.effect) {
+			settings.effect = MOST_URGENT;
+			await ev.action.setSettings(settings);
+		}
+
+		// Register listener and refresh timer if first button
+		if (activeButtons.size === 0) {
+			addStateListener(onStateUpdate, STATE_SELECTORS);
+			refreshTimer = setInterval(() => {
+				flashPhase = !flashPhase;
+				updateEffectTimers();
+			}, REFRESH_INTERVAL_MS);
+		}
+
+		activeButtons.set(ev.action.id, {
+			action: ev.action,
+			settings: settings
+		});
+
+		// Immediately render with current state
+		updateEffectTimers();
+	}
+
+	override async onWillDisappear(ev: WillDisappearEvent<EffectTimerSettings>): Promise<void> {
+		activeButtons.delete(ev.action.id);
+		lastImages.delete(ev.action.id);
+		seenEffects.delete(ev.action.id);
+
+		if (activeButtons.size === 0) {
+			removeStateListener(onStateUpdate);
+			if (refreshTimer) {
+				clearInterval(refreshTimer);
+				refreshTimer = null;
+			}
+		}
+	}
+
+	override async onDidReceiveSettings(ev: DidReceiveSettingsEvent<EffectTimerSettings>): Promise<void> {
+		const settings = ev.payload.settings;
+
+		const buttonData = activeButtons.get(ev.action.id);
+		if (buttonData) {
+			buttonData.settings = settings;
+		}
+
+		// A newly chosen effect has not been seen yet, so it starts idle rather than expired
+		seenEffects.delete(ev.action.id);
+		updateEffectTimers();
+	}
+}
+
+/**
+ * Updates the effect timer buttons showing a client, or all buttons if no client is given
+ */
+async function updateEffectTimers(clientId?: string): Promise<void> {
+	if (activeButtons.size === 0) return;
+
+	const startedAt = performance.now();
+	const now = Date.now();
+
+	await Promise.all(
+		Array.from(activeButtons.entries())
+			.filter(([, buttonData]) => matchesClient(buttonData.settings.client, clientId))
+			.map(async ([id, buttonData]) => {
+				try {
+					const settings = buttonData.settings;
+					const effect = settings.effect || MOST_URGENT;
+					const timers = getState(settings.client).timers || [];
+					const clientKey = resolveClientId(settings.client) ?? '';
+
+					forgetEndedTimers(clientKey, timers);
+					const countdown = selectCountdown(timers.map(timer => getCountdown(clientKey, timer, now)), effect);
+					if (countdown && countdown.remainingSeconds > 0) {
+						seenEffects.set(id, countdown.id);
+					}
+
+					// A tracked effect that ran out or disappeared after being seen is expired
+					const expired = effect !== MOST_URGENT && seenEffects.get(id) === effect && (!countdown || countdown.remainingSeconds <= 0);
+
+					const flashSeconds = parseFloat(settings.flashSeconds || '');
+					const flashWithin = isNaN(flashSeconds) ? DEFAULT_FLASH_SECONDS : flashSeconds;
+					const connected = isConnected(settings.client);
+					const highlighted = flashPhase && connected && !expired && countdown !== undefined && countdown.remainingSeconds <= flashWithin;
+
+					// Only update image if it changed
+					const image = createEffectTimerImage(effect, expired ? undefined : countdown, expired, highlighted, connected);
+					if (lastImages.get(id) !== image) {
+						await buttonData.action.setImage(image);
+						lastImages.set(id, image);
+					}
+				} catch (error) {
+					console.log(`[EffectTimer] Error updating button ${id}:`, error);
+				}
+			})
+	);
+
+	recordRenderTiming('EffectTimer', performance.now() - startedAt);
+}
+
+type EffectTimerSettings = {
+	/** Effect id to track, or "most_urgent" */
+	effect?: string;
+	/** Seconds before expiry during which the key flashes; defaults to 10 */
+	flashSeconds?: string;
+	client?: string;
+};
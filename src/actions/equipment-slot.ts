@@ -0,0 +1,202 @@
+import { action, SingletonAction, WillAppearEvent, WillDisappearEvent, DidReceiveSettingsEvent } from "@elgato/streamdeck";
+import { getState, addStateListener, removeStateListener, isConnected, matchesClient, EquipmentItem, EquipmentSlot as EquipmentSlotName, RuneLiteState } from '../state-server';
+import { createNoSignalOverlay } from '../no-signal';
+import { recordRenderTiming } from '../metrics';
+import { getItemIcon, formatQuantity } from '../items';
+
+/**
+ * Map to store equipment slot button instances by context
+ */
+const activeButtons = new Map<string, { action: any; settings: EquipmentSlotSettings }>();
+
+/**
+ * Last known render input for each button to avoid unnecessary image updates
+ */
+const lastButtonStates = new Map<string, string>();
+
+/**
+ * Color counters turn once they drop below the warning threshold
+ */
+const WARNING_COLOR = '#FF3030';
+
+/**
+ * A counter drawn over the item sprite
+ */
+type Counter = { text: string; color: string };
+
+/**
+ * Gets the counters to draw: the stack size for ammo, then any charges, at most two
+ */
+function getCounters(item: EquipmentItem, warnBelow: number): Counter[] {
+	const counts: number[] = [];
+	if (item.quantity > 1) {
+		counts.push(item.quantity);
+	}
+	for (const charge of item.charges || []) {
+		counts.push(charge.count);
+	}
+
+	return counts.slice(0, 2).map(count => {
+		const { text, color } = formatQuantity(count);
+		return { text, color: count < warnBelow ? WARNING_COLOR : color };
+	});
+}
+
+/**
+ * Draws a counter with the black outline OSRS uses for stack sizes
+ */
+function drawCounter(counter: Counter, x: number, y: number, anchor: 'start' | 'end'): string {
+	let svg = `<text x="${x}" y="${y}" font-family="Arial" font-size="30" font-weight="bold" text-anchor="${anchor}" stroke="#000000" stroke-width="3" fill="none">${counter.text}</text>`;
+	svg += `<text x="${x}" y="${y}" font-family="Arial" font-size="30" font-weight="bold" text-anchor="${anchor}" fill="${counter.color}">${counter.text}</text>`;
+	return svg;
+}
+
+/**
+ * Creates an equipment slot image with the item sprite and its counters
+ */
+function createEquipmentSlotImage(slot: EquipmentSlotName, item: EquipmentItem | undefined, warnBelow: number, connected: boolean): string {
+	const iconData = item ? getItemIcon(item.id) : undefined;
+
+	let svg = `<svg width="144" height="144" xmlns="http://www.w3.org/2000/svg">`;
+
+	svg += `<rect width="144" height="144" fill="#3E3529"/>`;
+	svg += `<rect x="4" y="4" width="136" height="136" fill="none" stroke="#2B2520" stroke-width="4"/>`;
+
+	if (iconData) {
+		svg += `<image href="${iconData}" x="18" y="30" width="108" height="96" image-rendering="pixelated"/>`;
+	} else if (!item) {
+		// Nothing equipped: label the slot so the key is recognisable
+		const label = slot.charAt(0).toUpperCase() + slot.slice(1);
+		svg += `<text x="72" y="80" font-family="Arial" font-size="22" font-weight="bold" text-anchor="middle" fill="#6E6253">${label}</text>`;
+	}
+
+	if (item && connected) {
+		const counters = getCounters(item, warnBelow);
+		if (counters[0]) {
+			svg += drawCounter(counters[0], 10, 30, 'start');
+		}
+		if (counters[1]) {
+			svg += drawCounter(counters[1], 134, 132, 'end');
+		}
+	}
+
+	if (!connected) {
+		svg += createNoSignalOverlay();
+	}
+
+	svg += `</svg>`;
+
+	const svgBase64 = Buffer.from(svg).toString('base64');
+	return `data:image/svg+xml;base64,${svgBase64}`;
+}
+
+/**
+ * State slices this action renders from
+ */
+const STATE_SELECTORS = ['equipment'];
+
+/**
+ * State listener function
+ */
+function onStateUpdate(_state: RuneLiteState, clientId?: string): void {
+	// A refresh of every client (e.g. the server failed to start) must redraw even unchanged buttons
+	if (clientId === undefined) {
+		lastButtonStates.clear();
+	}
+	updateEquipmentSlots(clientId);
+}
+
+/**
+ * Equipment Slot action
+ */
+@action({ UUID: "com.catagris.runelite.equipmentslot" })
+export class EquipmentSlot extends SingletonAction<EquipmentSlotSettings> {
+	override async onWillAppear(ev: WillAppearEvent<EquipmentSlotSettings>): Promise<void> {
+		const settings = ev.payload.settings;
+
+		if (!settings.slot) {
+			settings.slot = 'weapon';
+			await ev.action.setSettings(settings);
+		}
+
+		// Register listener if first button
+		if (activeButtons.size === 0) {
+			addStateListener(onStateUpdate, STATE_SELECTORS);
+		}
+
+		activeButtons.set(ev.action.id, {
+			action: ev.action,
+			settings: settings
+		});
+
+		// Immediately render with current state
+		updateEquipmentSlots();
+	}
+
+	override async onWillDisappear(ev: WillDisappearEvent<EquipmentSlotSettings>): Promise<void> {
+		activeButtons.delete(ev.action.id);
+		lastButtonStates.delete(ev.action.id);
+
+		if (activeButtons.size === 0) {
+			removeStateListener(onStateUpdate);
+		}
+	}
+
+	override async onDidReceiveSettings(ev: DidReceiveSettingsEvent<EquipmentSlotSettings>): Promise<void> {
+		const settings = ev.payload.settings;
+
+		const buttonData = activeButtons.get(ev.action.id);
+		if (buttonData) {
+			buttonData.settings = settings;
+		}
+
+		// Clear last state to force update with new slot or threshold
+		lastButtonStates.delete(ev.action.id);
+		updateEquipmentSlots();
+	}
+}
+
+/**
+ * Updates the equipment slot buttons showing a client, or all buttons if no client is given
+ */
+async function updateEquipmentSlots(clientId?: string): Promise<void> {
+	if (activeButtons.size === 0) return;
+
+	const startedAt = performance.now();
+
+	await Promise.all(
+		Array.from(activeButtons.entries())
+			.filter(([, buttonData]) => matchesClient(buttonData.settings.client, clientId))
+			.map(async ([id, buttonData]) => {
+				try {
+					const settings = buttonData.settings;
+					const slot = settings.slot || 'weapon';
+					const equipment = getState(settings.client).equipment || {};
+
+					const item = equipment[slot];
+					const warnBelow = parseInt(settings.warnBelow || '', 10) || 0;
+					const connected = isConnected(settings.client);
+
+					// Only update image if what is drawn changed
+					const charges = (item?.charges || []).map(charge => charge.count).join(',');
+					const renderKey = `${slot}:${item?.id ?? -1}:${item?.quantity ?? 0}:${charges}:${warnBelow}:${connected}:${item !== undefined && getItemIcon(item.id) !== undefined}`;
+					if (lastButtonStates.get(id) !== renderKey) {
+						const image = createEquipmentSlotImage(slot, item, warnBelow, connected);
+						await buttonData.action.setImage(image);
+						lastButtonStates.set(id, renderKey);
+					}
+				} catch (error) {
+					console.log(`[EquipmentSlot] Error updating button ${id}:`, error);
+				}
+			})
+	);
+
+	recordRenderTiming('EquipmentSlot', performance.now() - startedAt);
+}
+
+type EquipmentSlotSettings = {
+	slot?: EquipmentSlotName;
+	/** Counters below this turn red; empty to never warn */
+	warnBelow?: string;
+	client?: string;
+};
@@ -1,7 +1,11 @@
-import { action, SingletonAction, WillAppearEvent, WillDisappearEvent, DidReceiveSettingsEvent } from "@elgato/streamdeck";
-import * as fs from 'fs';
-import * as path from 'path';
-import { getState, addStateListener, removeStateListener, RuneLiteState } from '../state-server';
+import { action, SingletonAction, WillAppearEvent, WillDisappearEvent, DidReceiveSettingsEvent, DialRotateEvent, DialDownEvent } from "@elgato/streamdeck";
+import { getState, addStateListener, removeStateListener, isConnected, matchesClient, RuneLiteState } from '../state-server';
+import { createNoSignalOverlay } from '../no-signal';
+import { recordRenderTiming } from '../metrics';
+import { renderKey, invalidateKey, forgetKey } from '../key-renderer';
+import { isAlertTriggered, isAlertShown, clearAlert, createAlertOverlay, MeterAlertSettings } from '../meter-alerts';
+import { loadThemeImage, addThemeListener, removeThemeListener } from '../themes';
+import { addDial, removeDial, updateDialSettings, rotateDial, pressDial, DialStat } from '../dial-meters';
 
 /**
  * Map to store health meter button instances by context
@@ -13,11 +17,32 @@ const activeButtons = new Map<string, any>();
  */
 const cachedSettings = new Map<string, HealthMeterSettings>();
 
+/**
+ * State slices this action renders from
+ */
+const STATE_SELECTORS = ['stats.hp'];
+
 /**
  * State listener function
  */
-function onStateUpdate(state: RuneLiteState): void {
-	updateHealthMeters(state);
+function onStateUpdate(_state: RuneLiteState, clientId?: string): void {
+	// A refresh of every client (e.g. the server failed to start) must redraw even unchanged buttons
+	if (clientId === undefined) {
+		for (const id of activeButtons.keys()) {
+			invalidateKey(id);
+		}
+	}
+	updateHealthMeters(clientId);
+}
+
+/**
+ * Theme listener function
+ */
+function onThemeChange(): void {
+	for (const id of activeButtons.keys()) {
+		invalidateKey(id);
+	}
+	updateHealthMeters();
 }
 
 /**
@@ -42,9 +67,16 @@ export class HealthMeter extends SingletonAction<HealthMeterSettings> {
 
 		await ev.action.setSettings(settings);
 
+		// Dials show the meter on the touch strip instead of as a key image
+		if (ev.action.isDial()) {
+			addDial(ev.action, settings, 'health');
+			return;
+		}
+
 		// Register listener if first button
 		if (activeButtons.size === 0) {
-			addStateListener(onStateUpdate);
+			addStateListener(onStateUpdate, STATE_SELECTORS);
+			addThemeListener(onThemeChange);
 			console.log("[HealthMeter] Registered state listener");
 		}
 
@@ -53,19 +85,23 @@ export class HealthMeter extends SingletonAction<HealthMeterSettings> {
 		cachedSettings.set(ev.action.id, settings);
 
 		// Immediately render with current state
-		updateHealthMeters(getState());
+		updateHealthMeters();
 	}
 
 	/**
 	 * Called when the action is removed from the Stream Deck
 	 */
 	override async onWillDisappear(ev: WillDisappearEvent<HealthMeterSettings>): Promise<void> {
+		removeDial(ev.action.id);
+		clearAlert(ev.action.id);
+		forgetKey(ev.action.id);
 		activeButtons.delete(ev.action.id);
 		cachedSettings.delete(ev.action.id);
 
 		// Remove listener if no buttons left
 		if (activeButtons.size === 0) {
 			removeStateListener(onStateUpdate);
+			removeThemeListener(onThemeChange);
 			console.log("[HealthMeter] Removed state listener");
 		}
 	}
@@ -75,52 +111,56 @@ export class HealthMeter extends SingletonAction<HealthMeterSettings> {
 	 */
 	override async onDidReceiveSettings(ev: DidReceiveSettingsEvent<HealthMeterSettings>): Promise<void> {
 		const settings = ev.payload.settings;
+		if (ev.action.isDial()) {
+			updateDialSettings(ev.action.id, settings);
+			return;
+		}
 		cachedSettings.set(ev.action.id, settings);
-		updateHealthMeters(getState());
+		updateHealthMeters();
+	}
+
+	/**
+	 * Cycles which stat the dial shows
+	 */
+	override async onDialRotate(ev: DialRotateEvent<HealthMeterSettings>): Promise<void> {
+		await rotateDial(ev.action.id, ev.payload.ticks);
+	}
+
+	/**
+	 * Runs the key press of the stat the dial shows
+	 */
+	override async onDialDown(ev: DialDownEvent<HealthMeterSettings>): Promise<void> {
+		await pressDial(ev.action.id);
 	}
 }
 
 /**
- * Updates all health meter buttons with current state
+ * Updates the health meter buttons showing a client, or all buttons if no client is given
  */
-async function updateHealthMeters(state: RuneLiteState): Promise<void> {
+function updateHealthMeters(clientId?: string): void {
 	if (activeButtons.size === 0) return;
 
-	await Promise.all(
-		Array.from(activeButtons.entries()).map(async ([id, action]) => {
-			try {
-				const settings = cachedSettings.get(id) || {};
-				const image = createHealthMeterImage(state, settings);
-				await action.setImage(image);
-			} catch (error) {
-				console.log(`[HealthMeter] Error updating button ${id}:`, error);
-			}
-		})
-	);
-}
+	const startedAt = performance.now();
 
-/**
- * Cached overlay image as base64 data URI
- */
-let cachedOverlayImage: string | null = null;
+	for (const [id, action] of activeButtons) {
+		const settings = cachedSettings.get(id) || {};
+		if (!matchesClient(settings.client, clientId)) continue;
 
-/**
- * Loads the overlay PNG image and caches it as base64
- */
-function loadOverlayImage(): string {
-	if (cachedOverlayImage) {
-		return cachedOverlayImage;
-	}
+		try {
+			const data = getState(settings.client);
+			const connected = isConnected(settings.client);
+			const triggered = connected && isAlertTriggered(settings, data.stats?.hp?.current || 0, data.stats?.hp?.max || 100);
+			const alert = isAlertShown(id, settings, triggered, () => updateHealthMeters());
 
-	try {
-		const imgPath = path.join(process.cwd(), 'imgs', 'actions', 'health-meter', 'Hitpoints_orb.png');
-		const imageBuffer = fs.readFileSync(imgPath);
-		cachedOverlayImage = `data:image/png;base64,${imageBuffer.toString('base64')}`;
-		return cachedOverlayImage;
-	} catch (error) {
-		console.log('[HealthMeter] Error loading overlay image:', error);
-		return '';
+			// Only render when something the image is drawn from changed
+			const input = JSON.stringify([data.stats?.hp, connected, alert, settings]);
+			renderKey(action, input, () => createHealthMeterImage(data, settings, alert));
+		} catch (error) {
+			console.log(`[HealthMeter] Error updating button ${id}:`, error);
+		}
 	}
+
+	recordRenderTiming('HealthMeter', performance.now() - startedAt);
 }
 
 /**
@@ -182,7 +222,8 @@ function getHealthFillColor(data: RuneLiteState): string | { left: string; right
 /**
  * Creates an image with the health meter visualization
  */
-function createHealthMeterImage(data: RuneLiteState, settings: HealthMeterSettings): string {
+function createHealthMeterImage(data: RuneLiteState, settings: HealthMeterSettings, alert: boolean = false): string {
+	const connected = isConnected(settings.client);
 	const currentHealth = data.stats?.hp?.current || 0;
 	const maxHealth = data.stats?.hp?.max || 100;
 	const healthPercent = maxHealth > 0 ? currentHealth / maxHealth : 0;
@@ -193,7 +234,7 @@ function createHealthMeterImage(data: RuneLiteState, settings: HealthMeterSettin
 	const fillY = 144 - fillHeight;
 
 	const fillColor = getHealthFillColor(data);
-	const overlayImageData = loadOverlayImage();
+	const overlayImageData = loadThemeImage('health.overlay', 'health-meter/Hitpoints_orb.png', settings.theme);
 
 	let svg = `<svg width="144" height="144" xmlns="http://www.w3.org/2000/svg">`;
 
@@ -222,12 +263,20 @@ function createHealthMeterImage(data: RuneLiteState, settings: HealthMeterSettin
 		svg += `<image href="${overlayImageData}" x="0" y="0" width="144" height="144"/>`;
 	}
 
-	if (settings.showNumbers !== false) {
+	if (settings.showNumbers !== false && connected) {
 		const textPos = getTextPosition(settings.textPosition);
 		svg += `<text x="${textPos.x}" y="${textPos.y}" font-family="Arial" font-size="36" font-weight="bold" text-anchor="middle" dominant-baseline="middle" stroke="#000000" stroke-width="3" fill="none">${currentHealth}</text>`;
 		svg += `<text x="${textPos.x}" y="${textPos.y}" font-family="Arial" font-size="36" font-weight="bold" text-anchor="middle" dominant-baseline="middle" fill="${textColor}">${currentHealth}</text>`;
 	}
 
+	if (alert) {
+		svg += createAlertOverlay(settings);
+	}
+
+	if (!connected) {
+		svg += createNoSignalOverlay();
+	}
+
 	svg += `</svg>`;
 
 	const svgBase64 = Buffer.from(svg).toString('base64');
@@ -251,8 +300,13 @@ function getTextPosition(position: TextPosition | undefined): { x: number; y: nu
 	}
 }
 
-type HealthMeterSettings = {
+type HealthMeterSettings = MeterAlertSettings & {
 	coloredNumbers?: boolean;
 	textPosition?: TextPosition;
 	showNumbers?: boolean;
+	/** Theme for this key, or "global" to use the theme chosen for all keys */
+	theme?: string;
+	/** Stat shown when placed on a Stream Deck+ dial */
+	dialStat?: DialStat;
+	client?: string;
 };
@@ -0,0 +1,208 @@
+import { action, SingletonAction, WillAppearEvent, WillDisappearEvent, DidReceiveSettingsEvent } from "@elgato/streamdeck";
+import { getState, addStateListener, removeStateListener, isConnected, matchesClient, InventoryItem, RuneLiteState } from '../state-server';
+import { createNoSignalOverlay } from '../no-signal';
+import { recordRenderTiming } from '../metrics';
+import { getItemIcon, formatQuantity } from '../items';
+
+/**
+ * Map to store inventory slot button instances by context
+ */
+const activeButtons = new Map<string, { action: any; settings: InventorySlotSettings }>();
+
+/**
+ * Last known render input for each button to avoid unnecessary image updates
+ */
+const lastButtonStates = new Map<string, string>();
+
+/**
+ * Last item shown on each button, drawn dimmed once the item runs out
+ */
+const lastShownItems = new Map<string, number>();
+
+/**
+ * Matches potion-style names with a dose suffix, e.g. "Prayer potion(3)"
+ */
+const DOSE_PATTERN = /^(.*)\((\d)\)$/;
+
+/**
+ * Finds what a button should show: a single slot, or the total of every slot holding the named item.
+ * Potions are counted by dose, so "Prayer potion" totals the doses of all prayer potions.
+ */
+function findItem(inventory: InventoryItem[], settings: InventorySlotSettings): { id: number; quantity: number } | null {
+	if (settings.mode === 'item') {
+		const wanted = (settings.itemName || '').trim().toLowerCase();
+		if (!wanted) return null;
+
+		let id = -1;
+		let quantity = 0;
+		for (const item of inventory) {
+			if (item.id < 0 || !item.name) continue;
+
+			const name = item.name.toLowerCase();
+			const dose = name.match(DOSE_PATTERN);
+			if (name === wanted) {
+				quantity += item.quantity;
+			} else if (dose && dose[1].trim() === wanted) {
+				quantity += item.quantity * Number(dose[2]);
+			} else {
+				continue;
+			}
+			if (id === -1) id = item.id;
+		}
+		return id === -1 ? null : { id, quantity };
+	}
+
+	const slot = Number(settings.slot || 1) - 1;
+	const item = inventory.find(entry => entry.slot === slot);
+	if (!item || item.id < 0 || item.quantity <= 0) return null;
+	return { id: item.id, quantity: item.quantity };
+}
+
+/**
+ * Creates an inventory slot image with the item sprite and stack count
+ */
+function createInventorySlotImage(itemId: number, quantity: number, showQuantity: boolean, empty: boolean, connected: boolean): string {
+	const iconData = getItemIcon(itemId);
+
+	let svg = `<svg width="144" height="144" xmlns="http://www.w3.org/2000/svg">`;
+
+	svg += `<rect width="144" height="144" fill="#3E3529"/>`;
+	svg += `<rect x="4" y="4" width="136" height="136" fill="none" stroke="#2B2520" stroke-width="4"/>`;
+
+	if (iconData) {
+		svg += `<image href="${iconData}" x="18" y="30" width="108" height="96" image-rendering="pixelated" opacity="${empty ? 0.3 : 1}"/>`;
+	}
+
+	if (showQuantity && !empty) {
+		const { text, color } = formatQuantity(quantity);
+		svg += `<text x="10" y="30" font-family="Arial" font-size="30" font-weight="bold" stroke="#000000" stroke-width="3" fill="none">${text}</text>`;
+		svg += `<text x="10" y="30" font-family="Arial" font-size="30" font-weight="bold" fill="${color}">${text}</text>`;
+	}
+
+	if (!connected) {
+		svg += createNoSignalOverlay();
+	}
+
+	svg += `</svg>`;
+
+	const svgBase64 = Buffer.from(svg).toString('base64');
+	return `data:image/svg+xml;base64,${svgBase64}`;
+}
+
+/**
+ * State slices this action renders from
+ */
+const STATE_SELECTORS = ['inventory'];
+
+/**
+ * State listener function
+ */
+function onStateUpdate(_state: RuneLiteState, clientId?: string): void {
+	// A refresh of every client (e.g. the server failed to start) must redraw even unchanged buttons
+	if (clientId === undefined) {
+		lastButtonStates.clear();
+	}
+	updateInventorySlots(clientId);
+}
+
+/**
+ * Inventory Slot action
+ */
+@action({ UUID: "com.catagris.runelite.inventoryslot" })
+export class InventorySlot extends SingletonAction<InventorySlotSettings> {
+	override async onWillAppear(ev: WillAppearEvent<InventorySlotSettings>): Promise<void> {
+		const settings = ev.payload.settings;
+
+		if (!settings.mode) {
+			settings.mode = 'slot';
+			settings.slot = '1';
+			await ev.action.setSettings(settings);
+		}
+
+		// Register listener if first button
+		if (activeButtons.size === 0) {
+			addStateListener(onStateUpdate, STATE_SELECTORS);
+		}
+
+		activeButtons.set(ev.action.id, {
+			action: ev.action,
+			settings: settings
+		});
+
+		// Immediately render with current state
+		updateInventorySlots();
+	}
+
+	override async onWillDisappear(ev: WillDisappearEvent<InventorySlotSettings>): Promise<void> {
+		activeButtons.delete(ev.action.id);
+		lastButtonStates.delete(ev.action.id);
+		lastShownItems.delete(ev.action.id);
+
+		if (activeButtons.size === 0) {
+			removeStateListener(onStateUpdate);
+		}
+	}
+
+	override async onDidReceiveSettings(ev: DidReceiveSettingsEvent<InventorySlotSettings>): Promise<void> {
+		const settings = ev.payload.settings;
+
+		const buttonData = activeButtons.get(ev.action.id);
+		if (buttonData) {
+			buttonData.settings = settings;
+		}
+
+		// Forget the previous item so a new slot or item name does not show a stale sprite
+		lastButtonStates.delete(ev.action.id);
+		lastShownItems.delete(ev.action.id);
+		updateInventorySlots();
+	}
+}
+
+/**
+ * Updates the inventory slot buttons showing a client, or all buttons if no client is given
+ */
+async function updateInventorySlots(clientId?: string): Promise<void> {
+	if (activeButtons.size === 0) return;
+
+	const startedAt = performance.now();
+
+	await Promise.all(
+		Array.from(activeButtons.entries())
+			.filter(([, buttonData]) => matchesClient(buttonData.settings.client, clientId))
+			.map(async ([id, buttonData]) => {
+				try {
+					const settings = buttonData.settings;
+					const inventory = getState(settings.client).inventory || [];
+
+					const item = findItem(inventory, settings);
+					if (item) {
+						lastShownItems.set(id, item.id);
+					}
+
+					const itemId = item?.id ?? lastShownItems.get(id) ?? -1;
+					const quantity = item?.quantity ?? 0;
+					const showQuantity = settings.mode === 'item' || quantity > 1;
+					const connected = isConnected(settings.client);
+
+					// Only update image if what is drawn changed
+					const renderKey = `${itemId}:${quantity}:${showQuantity}:${item === null}:${connected}:${getItemIcon(itemId) !== undefined}`;
+					if (lastButtonStates.get(id) !== renderKey) {
+						const image = createInventorySlotImage(itemId, quantity, showQuantity, item === null, connected);
+						await buttonData.action.setImage(image);
+						lastButtonStates.set(id, renderKey);
+					}
+				} catch (error) {
+					console.log(`[InventorySlot] Error updating button ${id}:`, error);
+				}
+			})
+	);
+
+	recordRenderTiming('InventorySlot', performance.now() - startedAt);
+}
+
+type InventorySlotSettings = {
+	mode?: 'slot' | 'item';
+	slot?: string;
+	itemName?: string;
+	client?: string;
+};
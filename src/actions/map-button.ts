@@ -1,69 +1,88 @@
-import { action, SingletonAction, WillAppearEvent, KeyDownEvent, KeyUpEvent } from "@elgato/streamdeck";
+import { action, SingletonAction, WillAppearEvent, WillDisappearEvent, KeyDownEvent, KeyUpEvent, DidReceiveSettingsEvent } from "@elgato/streamdeck";
 import { Hardware } from "keysender";
-import * as fs from 'fs';
-import * as path from 'path';
+import { sendCommand, isCommandConsumerConnected } from '../command-queue';
+import { loadThemeImage, addThemeListener, removeThemeListener } from '../themes';
 
 /**
  * Map to store map button instances by context
  */
-const activeButtons = new Map<string, any>();
+const activeButtons = new Map<string, { action: any; settings: MapButtonSettings }>();
 
 /**
- * Cached images as base64 data URI
- */
-let cachedNormalImage: string | null = null;
-let cachedHighlightImage: string | null = null;
-
-/**
- * Loads and caches an image as base64
+ * Gets the normal map orb image
  */
-function loadImage(filename: string): string {
-	try {
-		const imgPath = path.join(process.cwd(), 'imgs', 'actions', 'map-button', filename);
-		const imageBuffer = fs.readFileSync(imgPath);
-		return `data:image/png;base64,${imageBuffer.toString('base64')}`;
-	} catch (error) {
-		console.log('[MapButton] Error loading image:', filename, error);
-		return '';
-	}
+function getNormalImage(theme?: string): string {
+	return loadThemeImage('map.orb', 'map-button/map_orb.png', theme);
 }
 
 /**
- * Gets the normal map orb image
+ * Gets the highlight map orb image
  */
-function getNormalImage(): string {
-	if (!cachedNormalImage) {
-		cachedNormalImage = loadImage('map_orb.png');
-	}
-	return cachedNormalImage;
+function getHighlightImage(theme?: string): string {
+	return loadThemeImage('map.orb.highlight', 'map-button/map_orb_highlight.png', theme);
 }
 
 /**
- * Gets the highlight map orb image
+ * Theme listener function
  */
-function getHighlightImage(): string {
-	if (!cachedHighlightImage) {
-		cachedHighlightImage = loadImage('map_orb_highlight.png');
+function onThemeChange(): void {
+	for (const [id, buttonData] of activeButtons) {
+		const normalImage = getNormalImage(buttonData.settings.theme);
+		if (normalImage) {
+			buttonData.action.setImage(normalImage).catch((error: unknown) => {
+				console.log(`[MapButton] Error updating button ${id}:`, error);
+			});
+		}
 	}
-	return cachedHighlightImage;
 }
 
 /**
  * Map Button action - sends Ctrl+M to toggle the world map
  */
 @action({ UUID: "com.catagris.runelite.mapbutton" })
-export class MapButton extends SingletonAction {
+export class MapButton extends SingletonAction<MapButtonSettings> {
 	/**
 	 * Called when the action becomes visible on the Stream Deck
 	 */
-	override async onWillAppear(ev: WillAppearEvent): Promise<void> {
+	override async onWillAppear(ev: WillAppearEvent<MapButtonSettings>): Promise<void> {
 		console.log("[MapButton] onWillAppear called");
 
+		// Register listener if first button
+		if (activeButtons.size === 0) {
+			addThemeListener(onThemeChange);
+		}
+
 		// Store the action instance
-		activeButtons.set(ev.action.id, ev.action);
+		activeButtons.set(ev.action.id, { action: ev.action, settings: ev.payload.settings });
 
 		// Set the normal image
-		const normalImage = getNormalImage();
+		const normalImage = getNormalImage(ev.payload.settings.theme);
+		if (normalImage) {
+			await ev.action.setImage(normalImage);
+		}
+	}
+
+	/**
+	 * Called when the action is removed from the Stream Deck
+	 */
+	override async onWillDisappear(ev: WillDisappearEvent<MapButtonSettings>): Promise<void> {
+		activeButtons.delete(ev.action.id);
+
+		if (activeButtons.size === 0) {
+			removeThemeListener(onThemeChange);
+		}
+	}
+
+	/**
+	 * Called when settings are updated via property inspector
+	 */
+	override async onDidReceiveSettings(ev: DidReceiveSettingsEvent<MapButtonSettings>): Promise<void> {
+		const buttonData = activeButtons.get(ev.action.id);
+		if (buttonData) {
+			buttonData.settings = ev.payload.settings;
+		}
+
+		const normalImage = getNormalImage(ev.payload.settings.theme);
 		if (normalImage) {
 			await ev.action.setImage(normalImage);
 		}
@@ -72,11 +91,11 @@ export class MapButton extends SingletonAction {
 	/**
 	 * Called when the key is pressed down
 	 */
-	override async onKeyDown(ev: KeyDownEvent): Promise<void> {
+	override async onKeyDown(ev: KeyDownEvent<MapButtonSettings>): Promise<void> {
 		console.log("[MapButton] Key pressed - showing highlight");
 
 		// Show highlight image while pressed
-		const highlightImage = getHighlightImage();
+		const highlightImage = getHighlightImage(ev.payload.settings.theme);
 		if (highlightImage) {
 			await ev.action.setImage(highlightImage);
 		}
@@ -85,15 +104,25 @@ export class MapButton extends SingletonAction {
 	/**
 	 * Called when the key is released
 	 */
-	override async onKeyUp(ev: KeyUpEvent): Promise<void> {
-		console.log("[MapButton] Key released - sending Ctrl+M and restoring normal image");
+	override async onKeyUp(ev: KeyUpEvent<MapButtonSettings>): Promise<void> {
+		console.log("[MapButton] Key released - toggling map and restoring normal image");
 
 		// Restore normal image
-		const normalImage = getNormalImage();
+		const normalImage = getNormalImage(ev.payload.settings.theme);
 		if (normalImage) {
 			await ev.action.setImage(normalImage);
 		}
 
+		// Prefer the command channel when RuneLite is polling for commands
+		if (isCommandConsumerConnected()) {
+			const result = await sendCommand({ type: 'toggleWorldMap' });
+			if (result.status !== 'acknowledged') {
+				console.log(`[MapButton] toggleWorldMap command ${result.status}:`, result.error);
+				await ev.action.showAlert();
+			}
+			return;
+		}
+
 		// Send Ctrl+M keystroke using keysender
 		try {
 			const hardware = new Hardware(null);
@@ -104,3 +133,8 @@ export class MapButton extends SingletonAction {
 		}
 	}
 }
+
+type MapButtonSettings = {
+	/** Theme for this key, or "global" to use the theme chosen for all keys */
+	theme?: string;
+};
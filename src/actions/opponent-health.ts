@@ -0,0 +1,239 @@
+import { action, SingletonAction, WillAppearEvent, WillDisappearEvent, DidReceiveSettingsEvent } from "@elgato/streamdeck";
+import { getState, addStateListener, removeStateListener, isConnected, matchesClient, OpponentHealth as Opponent, RuneLiteState } from '../state-server';
+import { createNoSignalOverlay } from '../no-signal';
+import { escapeXml } from '../svg';
+import { recordRenderTiming } from '../metrics';
+
+/**
+ * Map to store opponent health button instances by context
+ */
+const activeButtons = new Map<string, { action: any; settings: OpponentHealthSettings }>();
+
+/**
+ * Last known render input for each button to avoid unnecessary image updates
+ */
+const lastButtonStates = new Map<string, string>();
+
+/**
+ * Default time without a change to the opponent before the bar is cleared, matching RuneLite's opponent info
+ */
+const DEFAULT_TIMEOUT_SECONDS = 5;
+
+/**
+ * Most characters of the opponent name that fit across a key
+ */
+const MAX_NAME_LENGTH = 12;
+
+/**
+ * Last opponent seen by each button, and the timer that clears it once combat ends
+ */
+const lastOpponents = new Map<string, { key: string; timer: NodeJS.Timeout | null; expired: boolean }>();
+
+/**
+ * Returns the opponent to draw, or undefined once it has not changed for the out-of-combat timeout
+ */
+function trackOpponent(id: string, opponent: Opponent | undefined, settings: OpponentHealthSettings): Opponent | undefined {
+	const key = opponent ? JSON.stringify(opponent) : '';
+	const last = lastOpponents.get(id);
+	if (last && last.key === key) {
+		return last.expired ? undefined : opponent;
+	}
+
+	if (last?.timer) {
+		clearTimeout(last.timer);
+	}
+
+	const seconds = parseFloat(settings.timeoutSeconds || '');
+	const timeoutMs = (seconds > 0 ? seconds : DEFAULT_TIMEOUT_SECONDS) * 1000;
+	const entry: { key: string; timer: NodeJS.Timeout | null; expired: boolean } = { key, timer: null, expired: false };
+	if (opponent) {
+		entry.timer = setTimeout(() => {
+			entry.timer = null;
+			entry.expired = true;
+			updateOpponentHealth();
+		}, timeoutMs);
+	}
+	lastOpponents.set(id, entry);
+	return opponent;
+}
+
+/**
+ * Forgets a button's opponent and stops its timer
+ */
+function forgetOpponent(id: string): void {
+	const last = lastOpponents.get(id);
+	if (last?.timer) {
+		clearTimeout(last.timer);
+	}
+	lastOpponents.delete(id);
+}
+
+/**
+ * Gets the fraction of health left, or null if RuneLite does not know it
+ */
+function getHealthPercent(opponent: Opponent): number | null {
+	if (opponent.hp && opponent.hp.max > 0) {
+		return Math.max(0, Math.min(1, opponent.hp.current / opponent.hp.max));
+	}
+	if (opponent.healthRatio < 0 || opponent.healthScale <= 0) {
+		return null;
+	}
+	return Math.max(0, Math.min(1, opponent.healthRatio / opponent.healthScale));
+}
+
+/**
+ * Shortens a name to fit across the key
+ */
+function truncateName(name: string): string {
+	return name.length > MAX_NAME_LENGTH ? `${name.slice(0, MAX_NAME_LENGTH - 1).trimEnd()}…` : name;
+}
+
+/**
+ * Creates an image with the opponent's name over an OSRS-style green and red health bar
+ */
+function createOpponentHealthImage(opponent: Opponent | undefined, showNumbers: boolean, connected: boolean): string {
+	const percent = opponent ? getHealthPercent(opponent) : null;
+
+	let svg = `<svg width="144" height="144" xmlns="http://www.w3.org/2000/svg">`;
+
+	svg += `<rect width="144" height="144" fill="#000000"/>`;
+
+	if (opponent) {
+		const name = escapeXml(truncateName(opponent.name));
+		svg += `<text x="72" y="36" font-family="Arial" font-size="18" font-weight="bold" text-anchor="middle" stroke="#000000" stroke-width="3" fill="none">${name}</text>`;
+		svg += `<text x="72" y="36" font-family="Arial" font-size="18" font-weight="bold" text-anchor="middle" fill="#FFFF00">${name}</text>`;
+
+		svg += `<rect x="8" y="52" width="128" height="32" fill="#FF0000"/>`;
+		if (percent !== null) {
+			svg += `<rect x="8" y="52" width="${Math.round(128 * percent)}" height="32" fill="#00FF00"/>`;
+		}
+		svg += `<rect x="8" y="52" width="128" height="32" fill="none" stroke="#000000" stroke-width="2"/>`;
+
+		if (showNumbers && percent !== null && connected) {
+			const text = opponent.hp ? `${opponent.hp.current}/${opponent.hp.max}` : `${Math.round(percent * 100)}%`;
+			svg += `<text x="72" y="120" font-family="Arial" font-size="28" font-weight="bold" text-anchor="middle" stroke="#000000" stroke-width="3" fill="none">${text}</text>`;
+			svg += `<text x="72" y="120" font-family="Arial" font-size="28" font-weight="bold" text-anchor="middle" fill="#FFFFFF">${text}</text>`;
+		}
+	} else {
+		svg += `<rect x="8" y="52" width="128" height="32" fill="#1E1E1E" stroke="#3A3A3A" stroke-width="2"/>`;
+		svg += `<text x="72" y="112" font-family="Arial" font-size="18" text-anchor="middle" fill="#6E6E6E">No target</text>`;
+	}
+
+	if (!connected) {
+		svg += createNoSignalOverlay();
+	}
+
+	svg += `</svg>`;
+
+	const svgBase64 = Buffer.from(svg).toString('base64');
+	return `data:image/svg+xml;base64,${svgBase64}`;
+}
+
+/**
+ * State slices this action renders from
+ */
+const STATE_SELECTORS = ['opponent'];
+
+/**
+ * State listener function
+ */
+function onStateUpdate(_state: RuneLiteState, clientId?: string): void {
+	// A refresh of every client (e.g. the server failed to start) must redraw even unchanged buttons
+	if (clientId === undefined) {
+		lastButtonStates.clear();
+	}
+	updateOpponentHealth(clientId);
+}
+
+/**
+ * Opponent Health action
+ */
+@action({ UUID: "com.catagris.runelite.opponenthealth" })
+export class OpponentHealth extends SingletonAction<OpponentHealthSettings> {
+	override async onWillAppear(ev: WillAppearEvent<OpponentHealthSettings>): Promise<void> {
+		const settings = ev.payload.settings;
+
+		if (settings.showNumbers === undefined) {
+			settings.showNumbers = true;
+			await ev.action.setSettings(settings);
+		}
+
+		// Register listener if first button
+		if (activeButtons.size === 0) {
+			addStateListener(onStateUpdate, STATE_SELECTORS);
+		}
+
+		activeButtons.set(ev.action.id, {
+			action: ev.action,
+			settings: settings
+		});
+
+		// Immediately render with current state
+		updateOpponentHealth();
+	}
+
+	override async onWillDisappear(ev: WillDisappearEvent<OpponentHealthSettings>): Promise<void> {
+		activeButtons.delete(ev.action.id);
+		lastButtonStates.delete(ev.action.id);
+		forgetOpponent(ev.action.id);
+
+		if (activeButtons.size === 0) {
+			removeStateListener(onStateUpdate);
+		}
+	}
+
+	override async onDidReceiveSettings(ev: DidReceiveSettingsEvent<OpponentHealthSettings>): Promise<void> {
+		const settings = ev.payload.settings;
+
+		const buttonData = activeButtons.get(ev.action.id);
+		if (buttonData) {
+			buttonData.settings = settings;
+		}
+
+		// Restart the timeout with the new settings
+		lastButtonStates.delete(ev.action.id);
+		forgetOpponent(ev.action.id);
+		updateOpponentHealth();
+	}
+}
+
+/**
+ * Updates the opponent health buttons showing a client, or all buttons if no client is given
+ */
+async function updateOpponentHealth(clientId?: string): Promise<void> {
+	if (activeButtons.size === 0) return;
+
+	const startedAt = performance.now();
+
+	await Promise.all(
+		Array.from(activeButtons.entries())
+			.filter(([, buttonData]) => matchesClient(buttonData.settings.client, clientId))
+			.map(async ([id, buttonData]) => {
+				try {
+					const settings = buttonData.settings;
+					const opponent = trackOpponent(id, getState(settings.client).opponent, settings);
+					const showNumbers = settings.showNumbers !== false;
+					const connected = isConnected(settings.client);
+
+					// Only update image if what is drawn changed
+					const renderKey = `${opponent ? JSON.stringify(opponent) : ''}:${showNumbers}:${connected}`;
+					if (lastButtonStates.get(id) !== renderKey) {
+						const image = createOpponentHealthImage(opponent, showNumbers, connected);
+						await buttonData.action.setImage(image);
+						lastButtonStates.set(id, renderKey);
+					}
+				} catch (error) {
+					console.log(`[OpponentHealth] Error updating button ${id}:`, error);
+				}
+			})
+	);
+
+	recordRenderTiming('OpponentHealth', performance.now() - startedAt);
+}
+
+type OpponentHealthSettings = {
+	showNumbers?: boolean;
+	/** Seconds without a change before the bar clears; defaults to 5 */
+	timeoutSeconds?: string;
+	client?: string;
+};
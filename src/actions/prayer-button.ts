@@ -1,7 +1,10 @@
-import { action, SingletonAction, WillAppearEvent, WillDisappearEvent, DidReceiveSettingsEvent } from "@elgato/streamdeck";
-import * as fs from 'fs';
-import * as path from 'path';
-import { getState, addStateListener, removeStateListener, RuneLiteState } from '../state-server';
+import { action, SingletonAction, WillAppearEvent, WillDisappearEvent, KeyDownEvent, DidReceiveSettingsEvent } from "@elgato/streamdeck";
+import { getState, addStateListener, removeStateListener, isConnected, matchesClient, resolveClientId, RuneLiteState } from '../state-server';
+import { createNoSignalOverlay } from '../no-signal';
+import { recordRenderTiming } from '../metrics';
+import { sendCommand, isCommandConsumerConnected } from '../command-queue';
+import { getPrayerIcon } from '../prayers';
+import { loadThemeImage, addThemeListener, removeThemeListener } from '../themes';
 
 /**
  * Map to store prayer button instances by context
@@ -9,75 +12,120 @@ import { getState, addStateListener, removeStateListener, RuneLiteState } from '
 const activeButtons = new Map<string, { action: any; settings: PrayerButtonSettings }>();
 
 /**
- * Cached images as base64 data URI
+ * Prayer level needed for each prayer
  */
-const cachedImages = new Map<string, string>();
+const PRAYER_LEVELS: { [key: string]: number } = {
+	thick_skin: 1,
+	burst_of_strength: 4,
+	clarity_of_thought: 7,
+	sharp_eye: 8,
+	mystic_will: 9,
+	rock_skin: 10,
+	superhuman_strength: 13,
+	improved_reflexes: 16,
+	rapid_restore: 19,
+	rapid_heal: 22,
+	protect_item: 25,
+	hawk_eye: 26,
+	mystic_lore: 27,
+	steel_skin: 28,
+	ultimate_strength: 31,
+	incredible_reflexes: 34,
+	protect_from_magic: 37,
+	protect_from_missiles: 40,
+	protect_from_melee: 43,
+	eagle_eye: 44,
+	mystic_might: 45,
+	retribution: 46,
+	redemption: 49,
+	smite: 52,
+	preserve: 55,
+	chivalry: 60,
+	deadeye: 62,
+	mystic_vigour: 63,
+	piety: 70,
+	rigour: 74,
+	augury: 77,
+};
 
 /**
- * Loads and caches an image as base64
+ * Exclusive groups each prayer belongs to. Two prayers sharing a group deselect each other in game.
+ * Ranged and magic prayers take both the attack and strength groups, as they replace melee boosts.
  */
-function loadImage(filename: string): string {
-	const cached = cachedImages.get(filename);
-	if (cached) return cached;
+const PRAYER_GROUPS: { [key: string]: string[] } = {
+	thick_skin: ['defence'],
+	rock_skin: ['defence'],
+	steel_skin: ['defence'],
+	burst_of_strength: ['strength'],
+	superhuman_strength: ['strength'],
+	ultimate_strength: ['strength'],
+	clarity_of_thought: ['attack'],
+	improved_reflexes: ['attack'],
+	incredible_reflexes: ['attack'],
+	sharp_eye: ['attack', 'strength'],
+	hawk_eye: ['attack', 'strength'],
+	eagle_eye: ['attack', 'strength'],
+	deadeye: ['attack', 'strength'],
+	mystic_will: ['attack', 'strength'],
+	mystic_lore: ['attack', 'strength'],
+	mystic_might: ['attack', 'strength'],
+	mystic_vigour: ['attack', 'strength'],
+	chivalry: ['defence', 'attack', 'strength'],
+	piety: ['defence', 'attack', 'strength'],
+	rigour: ['defence', 'attack', 'strength'],
+	augury: ['defence', 'attack', 'strength'],
+	protect_from_magic: ['overhead'],
+	protect_from_missiles: ['overhead'],
+	protect_from_melee: ['overhead'],
+	retribution: ['overhead'],
+	redemption: ['overhead'],
+	smite: ['overhead'],
+};
 
-	try {
-		const imgPath = path.join(process.cwd(), 'imgs', 'actions', 'prayer-button', filename);
-		const imageBuffer = fs.readFileSync(imgPath);
-		const dataUri = `data:image/png;base64,${imageBuffer.toString('base64')}`;
-		cachedImages.set(filename, dataUri);
-		return dataUri;
-	} catch (error) {
-		console.log('[PrayerButton] Error loading image:', filename, error);
-		return '';
+/**
+ * Gets the active prayers that would be deselected by activating a prayer
+ */
+function getConflictingPrayers(prayerName: string, activePrayers: string[]): string[] {
+	const groups = PRAYER_GROUPS[prayerName] || [];
+	return activePrayers.filter(active =>
+		active !== prayerName && (PRAYER_GROUPS[active] || []).some(group => groups.includes(group))
+	);
+}
+
+/**
+ * Gets why a prayer cannot be activated, or null if it can.
+ * Checks are skipped when RuneLite has not sent the data they need.
+ */
+function getActivationProblem(prayerName: string, data: RuneLiteState): string | null {
+	if (data.stats?.prayer && data.stats.prayer.current <= 0) {
+		return 'no prayer points';
+	}
+	const level = data.stats?.skills?.prayer?.level;
+	const required = PRAYER_LEVELS[prayerName];
+	if (level !== undefined && required !== undefined && level < required) {
+		return `needs level ${required}, have ${level}`;
 	}
+	return null;
 }
 
 /**
- * Maps prayer JSON keys to their icon filenames
+ * Number of frames in the rejected animation and how long each lasts
  */
-const PRAYER_ICONS: { [key: string]: string } = {
-	thick_skin: 'Thick_Skin.png',
-	burst_of_strength: 'Burst_of_Strength.png',
-	clarity_of_thought: 'Clarity_of_Thought.png',
-	sharp_eye: 'Sharp_Eye.png',
-	mystic_will: 'Mystic_Will.png',
-	rock_skin: 'Rock_Skin.png',
-	superhuman_strength: 'Superhuman_Strength.png',
-	improved_reflexes: 'Improved_Reflexes.png',
-	rapid_restore: 'Rapid_Restore.png',
-	rapid_heal: 'Rapid_Heal.png',
-	protect_item: 'Protect_Item.png',
-	hawk_eye: 'Hawk_Eye.png',
-	mystic_lore: 'Mystic_Lore.png',
-	steel_skin: 'Steel_Skin.png',
-	ultimate_strength: 'Ultimate_Strength.png',
-	incredible_reflexes: 'Incredible_Reflexes.png',
-	protect_from_magic: 'Protect_from_Magic.png',
-	protect_from_missiles: 'Protect_from_Missiles.png',
-	protect_from_melee: 'Protect_from_Melee.png',
-	eagle_eye: 'Eagle_Eye.png',
-	mystic_might: 'Mystic_Might.png',
-	retribution: 'Retribution.png',
-	redemption: 'Redemption.png',
-	smite: 'Smite.png',
-	preserve: 'Preserve.png',
-	chivalry: 'Chivalry.png',
-	deadeye: 'Deadeye.png',
-	mystic_vigour: 'Mystic_Vigour.png',
-	piety: 'Piety.png',
-	rigour: 'Rigour.png',
-	augury: 'Augury.png',
-};
+const REJECTED_FRAMES = 4;
+const REJECTED_FRAME_MS = 120;
 
 /**
- * Creates a prayer button image with layered background and icon
+ * Buttons currently playing the rejected animation, which state updates must not draw over
  */
-function createPrayerImage(prayerName: string, isActive: boolean): string {
-	const iconFile = PRAYER_ICONS[prayerName.toLowerCase()] || 'Protect_from_Melee.png';
+const rejectingButtons = new Set<string>();
 
-	const deactivatedData = loadImage('Deactivated_prayer.png');
-	const activatedData = loadImage('Activated_prayer.png');
-	const iconData = loadImage(iconFile);
+/**
+ * Creates a prayer button image with layered background and icon
+ */
+function createPrayerImage(prayerName: string, isActive: boolean, connected: boolean = true, rejected: boolean = false, theme?: string): string {
+	const deactivatedData = loadThemeImage('prayer.frame.inactive', 'prayer-button/Deactivated_prayer.png', theme);
+	const activatedData = loadThemeImage('prayer.frame.active', 'prayer-button/Activated_prayer.png', theme);
+	const iconData = getPrayerIcon(prayerName, theme) || getPrayerIcon('protect_from_melee', theme);
 
 	let svg = `<svg width="144" height="144" xmlns="http://www.w3.org/2000/svg">`;
 
@@ -95,6 +143,14 @@ function createPrayerImage(prayerName: string, isActive: boolean): string {
 		svg += `<image href="${iconData}" x="12" y="12" width="120" height="120" image-rendering="pixelated"/>`;
 	}
 
+	if (rejected) {
+		svg += `<rect width="144" height="144" fill="#B00905" opacity="0.55"/>`;
+	}
+
+	if (!connected) {
+		svg += createNoSignalOverlay();
+	}
+
 	svg += `</svg>`;
 
 	const svgBase64 = Buffer.from(svg).toString('base64');
@@ -104,13 +160,30 @@ function createPrayerImage(prayerName: string, isActive: boolean): string {
 /**
  * Last known states for each button to avoid unnecessary image updates
  */
-const lastButtonStates = new Map<string, { isActive: boolean; prayerName: string }>();
+const lastButtonStates = new Map<string, { isActive: boolean; prayerName: string; connected: boolean }>();
+
+/**
+ * State slices this action renders from
+ */
+const STATE_SELECTORS = ['activePrayers'];
 
 /**
  * State listener function
  */
-function onStateUpdate(state: RuneLiteState): void {
-	updatePrayerButtons(state);
+function onStateUpdate(_state: RuneLiteState, clientId?: string): void {
+	// A refresh of every client (e.g. the server failed to start) must redraw even unchanged buttons
+	if (clientId === undefined) {
+		lastButtonStates.clear();
+	}
+	updatePrayerButtons(clientId);
+}
+
+/**
+ * Theme listener function
+ */
+function onThemeChange(): void {
+	lastButtonStates.clear();
+	updatePrayerButtons();
 }
 
 /**
@@ -128,7 +201,8 @@ export class PrayerButton extends SingletonAction<PrayerButtonSettings> {
 
 		// Register listener if first button
 		if (activeButtons.size === 0) {
-			addStateListener(onStateUpdate);
+			addStateListener(onStateUpdate, STATE_SELECTORS);
+			addThemeListener(onThemeChange);
 		}
 
 		activeButtons.set(ev.action.id, {
@@ -137,11 +211,11 @@ export class PrayerButton extends SingletonAction<PrayerButtonSettings> {
 		});
 
 		// Set initial image (inactive state)
-		const image = createPrayerImage(settings.prayerName, false);
+		const image = createPrayerImage(settings.prayerName, false, true, false, settings.theme);
 		await ev.action.setImage(image);
 
 		// Immediately render with current state
-		updatePrayerButtons(getState());
+		updatePrayerButtons();
 	}
 
 	override async onWillDisappear(ev: WillDisappearEvent<PrayerButtonSettings>): Promise<void> {
@@ -150,6 +224,7 @@ export class PrayerButton extends SingletonAction<PrayerButtonSettings> {
 
 		if (activeButtons.size === 0) {
 			removeStateListener(onStateUpdate);
+			removeThemeListener(onThemeChange);
 		}
 	}
 
@@ -163,35 +238,103 @@ export class PrayerButton extends SingletonAction<PrayerButtonSettings> {
 
 		// Clear last state to force update with new prayer name
 		lastButtonStates.delete(ev.action.id);
-		updatePrayerButtons(getState());
+		updatePrayerButtons();
+	}
+
+	/**
+	 * Requests activation or deactivation of the prayer, deselecting conflicting prayers if enabled
+	 */
+	override async onKeyDown(ev: KeyDownEvent<PrayerButtonSettings>): Promise<void> {
+		const settings = ev.payload.settings;
+		const prayerName = (settings.prayerName || 'protect_from_melee').toLowerCase();
+		const clientId = resolveClientId(settings.client) ?? undefined;
+
+		// Prayers have no keyboard shortcut, so this needs the command channel
+		if (!isCommandConsumerConnected(clientId)) {
+			await ev.action.showAlert();
+			return;
+		}
+
+		const data = getState(settings.client);
+		const activePrayers = data.activePrayers || [];
+		const active = !activePrayers.includes(prayerName);
+
+		if (active) {
+			const problem = getActivationProblem(prayerName, data);
+			if (problem) {
+				console.log(`[PrayerButton] Cannot activate ${prayerName}: ${problem}`);
+				await playRejectedAnimation(ev.action.id);
+				return;
+			}
+		}
+
+		const deactivate = active && settings.exclusive !== false ? getConflictingPrayers(prayerName, activePrayers) : [];
+		const result = await sendCommand({ type: 'setPrayer', prayer: prayerName, active, deactivate }, clientId);
+		if (result.status !== 'acknowledged') {
+			console.log(`[PrayerButton] setPrayer command ${result.status}:`, result.error);
+			await playRejectedAnimation(ev.action.id);
+		}
+	}
+}
+
+/**
+ * Flashes a button red to show its prayer could not be activated, then restores it
+ */
+async function playRejectedAnimation(id: string): Promise<void> {
+	const buttonData = activeButtons.get(id);
+	if (!buttonData || rejectingButtons.has(id)) return;
+
+	rejectingButtons.add(id);
+	try {
+		const prayerName = (buttonData.settings.prayerName || 'protect_from_melee').toLowerCase();
+		for (let frame = 0; frame < REJECTED_FRAMES; frame++) {
+			const isActive = (getState(buttonData.settings.client).activePrayers || []).includes(prayerName);
+			await buttonData.action.setImage(createPrayerImage(prayerName, isActive, true, frame % 2 === 0, buttonData.settings.theme));
+			await new Promise(resolve => setTimeout(resolve, REJECTED_FRAME_MS));
+		}
+	} catch (error) {
+		console.log(`[PrayerButton] Error animating button ${id}:`, error);
+	} finally {
+		rejectingButtons.delete(id);
+		lastButtonStates.delete(id);
+		updatePrayerButtons();
 	}
 }
 
 /**
  * Updates all prayer buttons with current state
  */
-async function updatePrayerButtons(state: RuneLiteState): Promise<void> {
+async function updatePrayerButtons(clientId?: string): Promise<void> {
 	if (activeButtons.size === 0) return;
 
-	// Check if we have any active prayers data
-	const activePrayers = state.activePrayers || [];
+	const startedAt = performance.now();
 
 	await Promise.all(
-		Array.from(activeButtons.entries()).map(async ([id, buttonData]) => {
-			const prayerName = (buttonData.settings.prayerName || 'protect_from_melee').toLowerCase();
-			const isActive = activePrayers.includes(prayerName);
-			const lastState = lastButtonStates.get(id);
-
-			// Only update image if state or prayer name changed
-			if (lastState?.isActive !== isActive || lastState?.prayerName !== prayerName) {
-				const image = createPrayerImage(prayerName, isActive);
-				await buttonData.action.setImage(image);
-				lastButtonStates.set(id, { isActive, prayerName });
-			}
-		})
+		Array.from(activeButtons.entries())
+			.filter(([id, buttonData]) => matchesClient(buttonData.settings.client, clientId) && !rejectingButtons.has(id))
+			.map(async ([id, buttonData]) => {
+				const prayerName = (buttonData.settings.prayerName || 'protect_from_melee').toLowerCase();
+				const isActive = (getState(buttonData.settings.client).activePrayers || []).includes(prayerName);
+				const connected = isConnected(buttonData.settings.client);
+				const lastState = lastButtonStates.get(id);
+
+				// Only update image if state, prayer name or connection changed
+				if (lastState?.isActive !== isActive || lastState?.prayerName !== prayerName || lastState?.connected !== connected) {
+					const image = createPrayerImage(prayerName, isActive, connected, false, buttonData.settings.theme);
+					await buttonData.action.setImage(image);
+					lastButtonStates.set(id, { isActive, prayerName, connected });
+				}
+			})
 	);
+
+	recordRenderTiming('PrayerButton', performance.now() - startedAt);
 }
 
 type PrayerButtonSettings = {
 	prayerName?: string;
+	/** Deselect prayers that cannot be active alongside this one; on unless set to false */
+	exclusive?: boolean;
+	/** Theme for this key, or "global" to use the theme chosen for all keys */
+	theme?: string;
+	client?: string;
 };
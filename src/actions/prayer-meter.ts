@@ -1,7 +1,14 @@
-import { action, SingletonAction, WillAppearEvent, WillDisappearEvent, DidReceiveSettingsEvent } from "@elgato/streamdeck";
-import * as fs from 'fs';
-import * as path from 'path';
-import { getState, addStateListener, removeStateListener, RuneLiteState } from '../state-server';
+import { action, SingletonAction, WillAppearEvent, WillDisappearEvent, KeyDownEvent, DidReceiveSettingsEvent, DialRotateEvent, DialDownEvent } from "@elgato/streamdeck";
+import { getState, addStateListener, removeStateListener, isConnected, matchesClient, resolveClientId, RuneLiteState } from '../state-server';
+import { createNoSignalOverlay } from '../no-signal';
+import { recordRenderTiming } from '../metrics';
+import { renderKey, invalidateKey, forgetKey } from '../key-renderer';
+import { isAlertTriggered, isAlertShown, clearAlert, createAlertOverlay, MeterAlertSettings } from '../meter-alerts';
+import { loadThemeImage, addThemeListener, removeThemeListener } from '../themes';
+import { addDial, removeDial, updateDialSettings, rotateDial, pressDial, DialStat } from '../dial-meters';
+import { isTogglePending, sendToggle, createPendingOverlay } from '../pending-toggles';
+import { getPrayerDrain, PrayerDrain } from '../prayer-drain';
+import { getPrayerIcon } from '../prayers';
 
 /**
  * Map to store prayer meter button instances by context
@@ -14,59 +21,52 @@ const activeButtons = new Map<string, any>();
 const cachedSettings = new Map<string, PrayerMeterSettings>();
 
 /**
- * Cached images as base64 data URI
+ * How often keys showing time remaining are redrawn so the countdown runs between prayer point drops
  */
-let cachedEnabledBackground: string | null = null;
-let cachedDisabledBackground: string | null = null;
-let cachedEnabledOverlay: string | null = null;
-let cachedDisabledOverlay: string | null = null;
+const REFRESH_INTERVAL_MS = 1000;
 
 /**
- * Loads and caches an image as base64
+ * Timer that redraws keys while any show time remaining
  */
-function loadImage(filename: string): string {
-	try {
-		const imgPath = path.join(process.cwd(), 'imgs', 'actions', 'prayer-meter', filename);
-		const imageBuffer = fs.readFileSync(imgPath);
-		return `data:image/png;base64,${imageBuffer.toString('base64')}`;
-	} catch (error) {
-		console.log('[PrayerMeter] Error loading image:', filename, error);
-		return '';
+let refreshTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Starts the refresh timer if any key shows time remaining, and stops it otherwise
+ */
+function updateRefreshTimer(): void {
+	const needed = Array.from(cachedSettings.values()).some(settings => settings.display === 'timeRemaining');
+	if (needed && !refreshTimer) {
+		refreshTimer = setInterval(() => updatePrayerMeters(), REFRESH_INTERVAL_MS);
+	} else if (!needed && refreshTimer) {
+		clearInterval(refreshTimer);
+		refreshTimer = null;
 	}
 }
 
+/**
+ * Formats seconds as m:ss
+ */
+function formatTime(seconds: number): string {
+	const total = Math.ceil(seconds);
+	return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
 /**
  * Gets the background fill image based on quick prayer state
  */
-function getBackgroundImage(enabled: boolean): string {
-	if (enabled) {
-		if (!cachedEnabledBackground) {
-			cachedEnabledBackground = loadImage('Prayer_orb_enabled_backgroud.png');
-		}
-		return cachedEnabledBackground;
-	} else {
-		if (!cachedDisabledBackground) {
-			cachedDisabledBackground = loadImage('Prayer_orb_disabled_backgroud.png');
-		}
-		return cachedDisabledBackground;
-	}
+function getBackgroundImage(enabled: boolean, theme?: string): string {
+	return enabled
+		? loadThemeImage('prayer.fill.enabled', 'prayer-meter/Prayer_orb_enabled_backgroud.png', theme)
+		: loadThemeImage('prayer.fill.disabled', 'prayer-meter/Prayer_orb_disabled_backgroud.png', theme);
 }
 
 /**
  * Gets the overlay image based on quick prayer state
  */
-function getOverlayImage(enabled: boolean): string {
-	if (enabled) {
-		if (!cachedEnabledOverlay) {
-			cachedEnabledOverlay = loadImage('Prayer_orb_enabled.png');
-		}
-		return cachedEnabledOverlay;
-	} else {
-		if (!cachedDisabledOverlay) {
-			cachedDisabledOverlay = loadImage('Prayer_orb_disabled.png');
-		}
-		return cachedDisabledOverlay;
-	}
+function getOverlayImage(enabled: boolean, theme?: string): string {
+	return enabled
+		? loadThemeImage('prayer.overlay.enabled', 'prayer-meter/Prayer_orb_enabled.png', theme)
+		: loadThemeImage('prayer.overlay.disabled', 'prayer-meter/Prayer_orb_disabled.png', theme);
 }
 
 /**
@@ -90,11 +90,59 @@ function getPercentColor(percent: number): string {
 	return `#${r.toString(16).padStart(2, '0').toUpperCase()}${g.toString(16).padStart(2, '0').toUpperCase()}00`;
 }
 
+/**
+ * Returns true if quick prayers are active. For clients that do not report it, any active prayer counts.
+ */
+function isQuickPrayerActive(data: RuneLiteState): boolean {
+	return data.quickPrayersEnabled ?? ((data.activePrayers && data.activePrayers.length > 0) || false);
+}
+
+/**
+ * Most quick prayer icons drawn across the top of the key
+ */
+const MAX_QUICK_PRAYER_ICONS = 5;
+
+/**
+ * Creates the SVG fragment showing the icons of the selected quick prayers in a row across the top of the key
+ */
+function createQuickPrayerIcons(selection: string[], theme?: string): string {
+	const icons = selection.map(prayer => getPrayerIcon(prayer, theme)).filter(icon => icon).slice(0, MAX_QUICK_PRAYER_ICONS);
+	const size = 26;
+	const startX = 72 - (icons.length * size) / 2;
+
+	let svg = '';
+	icons.forEach((icon, index) => {
+		svg += `<image href="${icon}" x="${startX + index * size}" y="6" width="${size}" height="${size}"/>`;
+	});
+	return svg;
+}
+
+/**
+ * State slices this action renders from
+ */
+const STATE_SELECTORS = ['stats.prayer', 'activePrayers', 'quickPrayersEnabled', 'quickPrayerSelection'];
+
 /**
  * State listener function
  */
-function onStateUpdate(state: RuneLiteState): void {
-	updatePrayerMeters(state);
+function onStateUpdate(_state: RuneLiteState, clientId?: string): void {
+	// A refresh of every client (e.g. the server failed to start) must redraw even unchanged buttons
+	if (clientId === undefined) {
+		for (const id of activeButtons.keys()) {
+			invalidateKey(id);
+		}
+	}
+	updatePrayerMeters(clientId);
+}
+
+/**
+ * Theme listener function
+ */
+function onThemeChange(): void {
+	for (const id of activeButtons.keys()) {
+		invalidateKey(id);
+	}
+	updatePrayerMeters();
 }
 
 /**
@@ -111,70 +159,131 @@ export class PrayerMeter extends SingletonAction<PrayerMeterSettings> {
 		if (settings.showNumbers === undefined) {
 			settings.showNumbers = true;
 		}
+		if (settings.pressToToggle === undefined) {
+			settings.pressToToggle = true;
+		}
 
 		await ev.action.setSettings(settings);
 
+		// Dials show the meter on the touch strip instead of as a key image
+		if (ev.action.isDial()) {
+			addDial(ev.action, settings, 'prayer');
+			return;
+		}
+
 		// Register listener if first button
 		if (activeButtons.size === 0) {
-			addStateListener(onStateUpdate);
+			addStateListener(onStateUpdate, STATE_SELECTORS);
+			addThemeListener(onThemeChange);
 		}
 
 		activeButtons.set(ev.action.id, ev.action);
 		cachedSettings.set(ev.action.id, settings);
+		updateRefreshTimer();
 
 		// Immediately render with current state
-		updatePrayerMeters(getState());
+		updatePrayerMeters();
 	}
 
 	override async onWillDisappear(ev: WillDisappearEvent<PrayerMeterSettings>): Promise<void> {
+		removeDial(ev.action.id);
+		clearAlert(ev.action.id);
+		forgetKey(ev.action.id);
 		activeButtons.delete(ev.action.id);
 		cachedSettings.delete(ev.action.id);
+		updateRefreshTimer();
 
 		if (activeButtons.size === 0) {
 			removeStateListener(onStateUpdate);
+			removeThemeListener(onThemeChange);
 		}
 	}
 
 	override async onDidReceiveSettings(ev: DidReceiveSettingsEvent<PrayerMeterSettings>): Promise<void> {
 		const settings = ev.payload.settings;
+		if (ev.action.isDial()) {
+			updateDialSettings(ev.action.id, settings);
+			return;
+		}
 		cachedSettings.set(ev.action.id, settings);
-		updatePrayerMeters(getState());
+		updateRefreshTimer();
+		updatePrayerMeters();
+	}
+
+	/**
+	 * Toggles quick prayers when pressing the key is enabled
+	 */
+	override async onKeyDown(ev: KeyDownEvent<PrayerMeterSettings>): Promise<void> {
+		const settings = ev.payload.settings;
+		if (settings.pressToToggle === false) {
+			return;
+		}
+		await sendToggle(ev.action, { type: 'toggleQuickPrayers' }, settings.client, isQuickPrayerActive(getState(settings.client)), () => updatePrayerMeters());
+	}
+
+	/**
+	 * Cycles which stat the dial shows
+	 */
+	override async onDialRotate(ev: DialRotateEvent<PrayerMeterSettings>): Promise<void> {
+		await rotateDial(ev.action.id, ev.payload.ticks);
+	}
+
+	/**
+	 * Runs the key press of the stat the dial shows
+	 */
+	override async onDialDown(ev: DialDownEvent<PrayerMeterSettings>): Promise<void> {
+		await pressDial(ev.action.id);
 	}
 }
 
 /**
- * Updates all prayer meter buttons with current state
+ * Updates the prayer meter buttons showing a client, or all buttons if no client is given
  */
-async function updatePrayerMeters(state: RuneLiteState): Promise<void> {
+function updatePrayerMeters(clientId?: string): void {
 	if (activeButtons.size === 0) return;
 
-	await Promise.all(
-		Array.from(activeButtons.entries()).map(async ([id, action]) => {
-			try {
-				const settings = cachedSettings.get(id) || {};
-				const image = createPrayerMeterImage(state, settings);
-				await action.setImage(image);
-			} catch (error) {
-				console.log(`[PrayerMeter] Error updating button ${id}:`, error);
-			}
-		})
-	);
+	const startedAt = performance.now();
+
+	for (const [id, action] of activeButtons) {
+		const settings = cachedSettings.get(id) || {};
+		if (!matchesClient(settings.client, clientId)) continue;
+
+		try {
+			const data = getState(settings.client);
+			const connected = isConnected(settings.client);
+			const triggered = connected && isAlertTriggered(settings, data.stats?.prayer?.current || 0, data.stats?.prayer?.max || 1);
+			const alert = isAlertShown(id, settings, triggered, () => updatePrayerMeters());
+			const drain = getPrayerDrain(resolveClientId(settings.client) ?? '', data);
+			const pending = isTogglePending(id, isQuickPrayerActive(data));
+			const timeLeft = drain && settings.display === 'timeRemaining' ? [Math.ceil(drain.secondsRemaining), drain.measured] : null;
+
+			// Only render when something the image is drawn from changed
+			const input = JSON.stringify([data.stats?.prayer, isQuickPrayerActive(data), data.quickPrayerSelection, timeLeft, connected, pending, alert, settings]);
+			renderKey(action, input, () => createPrayerMeterImage(data, settings, drain, pending, alert));
+		} catch (error) {
+			console.log(`[PrayerMeter] Error updating button ${id}:`, error);
+		}
+	}
+
+	recordRenderTiming('PrayerMeter', performance.now() - startedAt);
 }
 
 /**
  * Creates an image with the prayer meter visualization
  */
-function createPrayerMeterImage(data: RuneLiteState, settings: PrayerMeterSettings): string {
+function createPrayerMeterImage(data: RuneLiteState, settings: PrayerMeterSettings, drain: PrayerDrain | null, pending: boolean = false, alert: boolean = false): string {
+	const connected = isConnected(settings.client);
 	const currentPrayer = data.stats?.prayer?.current || 0;
 	const maxPrayer = data.stats?.prayer?.max || 1;
-	const quickPrayerActive = (data.activePrayers && data.activePrayers.length > 0) || false;
+	// While a toggle is pending, optimistically draw the value it will change to
+	const quickPrayerActive = isQuickPrayerActive(data) !== pending;
 
 	const prayerPercent = maxPrayer > 0 ? currentPrayer / maxPrayer : 0;
 	const textColor = settings.coloredNumbers === true ? getPercentColor(prayerPercent) : '#FFFFFF';
 	const maskHeight = Math.round(144 * (1 - prayerPercent));
 
-	const backgroundData = getBackgroundImage(quickPrayerActive);
-	const overlayData = getOverlayImage(quickPrayerActive);
+	const backgroundData = getBackgroundImage(quickPrayerActive, settings.theme);
+	const overlayData = getOverlayImage(quickPrayerActive, settings.theme);
 
 	let svg = `<svg width="144" height="144" xmlns="http://www.w3.org/2000/svg">`;
 
@@ -192,10 +301,30 @@ function createPrayerMeterImage(data: RuneLiteState, settings: PrayerMeterSettin
 		svg += `<image href="${overlayData}" x="0" y="0" width="144" height="144"/>`;
 	}
 
-	if (settings.showNumbers !== false) {
+	if (settings.showQuickPrayers === true && data.quickPrayerSelection) {
+		svg += createQuickPrayerIcons(data.quickPrayerSelection, settings.theme);
+	}
+
+	if (settings.showNumbers !== false && connected) {
 		const textPos = getTextPosition(settings.textPosition);
-		svg += `<text x="${textPos.x}" y="${textPos.y}" font-family="Arial" font-size="36" font-weight="bold" text-anchor="middle" dominant-baseline="middle" stroke="#000000" stroke-width="3" fill="none">${currentPrayer}</text>`;
-		svg += `<text x="${textPos.x}" y="${textPos.y}" font-family="Arial" font-size="36" font-weight="bold" text-anchor="middle" dominant-baseline="middle" fill="${textColor}">${currentPrayer}</text>`;
+		// Estimates from the prayers' drain effects are marked until a rate has been measured
+		const timeText = drain ? `${drain.measured ? '' : '~'}${formatTime(drain.secondsRemaining)}` : '-:--';
+		const text = settings.display === 'timeRemaining' ? timeText : `${currentPrayer}`;
+		const fontSize = settings.display === 'timeRemaining' ? 30 : 36;
+		svg += `<text x="${textPos.x}" y="${textPos.y}" font-family="Arial" font-size="${fontSize}" font-weight="bold" text-anchor="middle" dominant-baseline="middle" stroke="#000000" stroke-width="3" fill="none">${text}</text>`;
+		svg += `<text x="${textPos.x}" y="${textPos.y}" font-family="Arial" font-size="${fontSize}" font-weight="bold" text-anchor="middle" dominant-baseline="middle" fill="${textColor}">${text}</text>`;
+	}
+
+	if (alert) {
+		svg += createAlertOverlay(settings);
+	}
+
+	if (pending) {
+		svg += createPendingOverlay();
+	}
+
+	if (!connected) {
+		svg += createNoSignalOverlay();
 	}
 
 	svg += `</svg>`;
@@ -221,8 +350,18 @@ function getTextPosition(position: TextPosition | undefined): { x: number; y: nu
 	}
 }
 
-type PrayerMeterSettings = {
+type PrayerMeterSettings = MeterAlertSettings & {
+	/** Show prayer points, or the time until prayer runs out at the current drain rate */
+	display?: 'points' | 'timeRemaining';
 	coloredNumbers?: boolean;
 	textPosition?: TextPosition;
 	showNumbers?: boolean;
+	pressToToggle?: boolean;
+	/** Theme for this key, or "global" to use the theme chosen for all keys */
+	theme?: string;
+	/** Draw the icons of the selected quick prayers */
+	showQuickPrayers?: boolean;
+	/** Stat shown when placed on a Stream Deck+ dial */
+	dialStat?: DialStat;
+	client?: string;
 };
@@ -1,7 +1,12 @@
-import { action, SingletonAction, WillAppearEvent, WillDisappearEvent, DidReceiveSettingsEvent } from "@elgato/streamdeck";
-import * as fs from 'fs';
-import * as path from 'path';
-import { getState, addStateListener, removeStateListener, RuneLiteState } from '../state-server';
+import { action, SingletonAction, WillAppearEvent, WillDisappearEvent, KeyDownEvent, DidReceiveSettingsEvent, DialRotateEvent, DialDownEvent } from "@elgato/streamdeck";
+import { getState, addStateListener, removeStateListener, isConnected, matchesClient, RuneLiteState } from '../state-server';
+import { createNoSignalOverlay } from '../no-signal';
+import { recordRenderTiming } from '../metrics';
+import { renderKey, invalidateKey, forgetKey } from '../key-renderer';
+import { isAlertTriggered, isAlertShown, clearAlert, createAlertOverlay, MeterAlertSettings } from '../meter-alerts';
+import { loadThemeImage, addThemeListener, removeThemeListener } from '../themes';
+import { addDial, removeDial, updateDialSettings, rotateDial, pressDial, DialStat } from '../dial-meters';
+import { isTogglePending, sendToggle, createPendingOverlay } from '../pending-toggles';
 
 /**
  * Map to store run meter button instances by context
@@ -13,60 +18,22 @@ const activeButtons = new Map<string, any>();
  */
 const cachedSettings = new Map<string, RunMeterSettings>();
 
-/**
- * Cached images as base64 data URI
- */
-let cachedEnabledBackground: string | null = null;
-let cachedDisabledBackground: string | null = null;
-let cachedEnabledOverlay: string | null = null;
-let cachedDisabledOverlay: string | null = null;
-
-/**
- * Loads and caches an image as base64
- */
-function loadImage(filename: string): string {
-	try {
-		const imgPath = path.join(process.cwd(), 'imgs', 'actions', 'run-meter', filename);
-		const imageBuffer = fs.readFileSync(imgPath);
-		return `data:image/png;base64,${imageBuffer.toString('base64')}`;
-	} catch (error) {
-		console.log('[RunMeter] Error loading image:', filename, error);
-		return '';
-	}
-}
-
 /**
  * Gets the background fill image based on run state
  */
-function getBackgroundImage(enabled: boolean): string {
-	if (enabled) {
-		if (!cachedEnabledBackground) {
-			cachedEnabledBackground = loadImage('Run_energy_orb_enabled_backgroud.png');
-		}
-		return cachedEnabledBackground;
-	} else {
-		if (!cachedDisabledBackground) {
-			cachedDisabledBackground = loadImage('Run_energy_orb_disabled_backgroud.png');
-		}
-		return cachedDisabledBackground;
-	}
+function getBackgroundImage(enabled: boolean, theme?: string): string {
+	return enabled
+		? loadThemeImage('run.fill.enabled', 'run-meter/Run_energy_orb_enabled_backgroud.png', theme)
+		: loadThemeImage('run.fill.disabled', 'run-meter/Run_energy_orb_disabled_backgroud.png', theme);
 }
 
 /**
  * Gets the overlay image based on run state
  */
-function getOverlayImage(enabled: boolean): string {
-	if (enabled) {
-		if (!cachedEnabledOverlay) {
-			cachedEnabledOverlay = loadImage('Run_energy_orb_enabled.png');
-		}
-		return cachedEnabledOverlay;
-	} else {
-		if (!cachedDisabledOverlay) {
-			cachedDisabledOverlay = loadImage('Run_energy_orb_disabled.png');
-		}
-		return cachedDisabledOverlay;
-	}
+function getOverlayImage(enabled: boolean, theme?: string): string {
+	return enabled
+		? loadThemeImage('run.overlay.enabled', 'run-meter/Run_energy_orb_enabled.png', theme)
+		: loadThemeImage('run.overlay.disabled', 'run-meter/Run_energy_orb_disabled.png', theme);
 }
 
 /**
@@ -90,11 +57,39 @@ function getPercentColor(percent: number): string {
 	return `#${r.toString(16).padStart(2, '0').toUpperCase()}${g.toString(16).padStart(2, '0').toUpperCase()}00`;
 }
 
+/**
+ * Returns true if run is toggled on
+ */
+function isRunEnabled(data: RuneLiteState): boolean {
+	return data.stats?.runEnabled || false;
+}
+
+/**
+ * State slices this action renders from
+ */
+const STATE_SELECTORS = ['stats.runEnergy', 'stats.runEnabled'];
+
 /**
  * State listener function
  */
-function onStateUpdate(state: RuneLiteState): void {
-	updateRunMeters(state);
+function onStateUpdate(_state: RuneLiteState, clientId?: string): void {
+	// A refresh of every client (e.g. the server failed to start) must redraw even unchanged buttons
+	if (clientId === undefined) {
+		for (const id of activeButtons.keys()) {
+			invalidateKey(id);
+		}
+	}
+	updateRunMeters(clientId);
+}
+
+/**
+ * Theme listener function
+ */
+function onThemeChange(): void {
+	for (const id of activeButtons.keys()) {
+		invalidateKey(id);
+	}
+	updateRunMeters();
 }
 
 /**
@@ -111,62 +106,118 @@ export class RunMeter extends SingletonAction<RunMeterSettings> {
 		if (settings.showNumbers === undefined) {
 			settings.showNumbers = true;
 		}
+		if (settings.pressToToggle === undefined) {
+			settings.pressToToggle = true;
+		}
 
 		await ev.action.setSettings(settings);
 
+		// Dials show the meter on the touch strip instead of as a key image
+		if (ev.action.isDial()) {
+			addDial(ev.action, settings, 'run');
+			return;
+		}
+
 		// Register listener if first button
 		if (activeButtons.size === 0) {
-			addStateListener(onStateUpdate);
+			addStateListener(onStateUpdate, STATE_SELECTORS);
+			addThemeListener(onThemeChange);
 		}
 
 		activeButtons.set(ev.action.id, ev.action);
 		cachedSettings.set(ev.action.id, settings);
 
 		// Immediately render with current state
-		updateRunMeters(getState());
+		updateRunMeters();
 	}
 
 	override async onWillDisappear(ev: WillDisappearEvent<RunMeterSettings>): Promise<void> {
+		removeDial(ev.action.id);
+		clearAlert(ev.action.id);
+		forgetKey(ev.action.id);
 		activeButtons.delete(ev.action.id);
 		cachedSettings.delete(ev.action.id);
 
 		if (activeButtons.size === 0) {
 			removeStateListener(onStateUpdate);
+			removeThemeListener(onThemeChange);
 		}
 	}
 
 	override async onDidReceiveSettings(ev: DidReceiveSettingsEvent<RunMeterSettings>): Promise<void> {
 		const settings = ev.payload.settings;
+		if (ev.action.isDial()) {
+			updateDialSettings(ev.action.id, settings);
+			return;
+		}
 		cachedSettings.set(ev.action.id, settings);
-		updateRunMeters(getState());
+		updateRunMeters();
+	}
+
+	/**
+	 * Toggles run when pressing the key is enabled
+	 */
+	override async onKeyDown(ev: KeyDownEvent<RunMeterSettings>): Promise<void> {
+		const settings = ev.payload.settings;
+		if (settings.pressToToggle === false) {
+			return;
+		}
+		await sendToggle(ev.action, { type: 'toggleRun' }, settings.client, isRunEnabled(getState(settings.client)), () => updateRunMeters());
+	}
+
+	/**
+	 * Cycles which stat the dial shows
+	 */
+	override async onDialRotate(ev: DialRotateEvent<RunMeterSettings>): Promise<void> {
+		await rotateDial(ev.action.id, ev.payload.ticks);
+	}
+
+	/**
+	 * Runs the key press of the stat the dial shows
+	 */
+	override async onDialDown(ev: DialDownEvent<RunMeterSettings>): Promise<void> {
+		await pressDial(ev.action.id);
 	}
 }
 
 /**
- * Updates all run meter buttons with current state
+ * Updates the run meter buttons showing a client, or all buttons if no client is given
  */
-async function updateRunMeters(state: RuneLiteState): Promise<void> {
+function updateRunMeters(clientId?: string): void {
 	if (activeButtons.size === 0) return;
 
-	await Promise.all(
-		Array.from(activeButtons.entries()).map(async ([id, action]) => {
-			try {
-				const settings = cachedSettings.get(id) || {};
-				const image = createRunMeterImage(state, settings);
-				await action.setImage(image);
-			} catch (error) {
-				console.log(`[RunMeter] Error updating button ${id}:`, error);
-			}
-		})
-	);
+	const startedAt = performance.now();
+
+	for (const [id, action] of activeButtons) {
+		const settings = cachedSettings.get(id) || {};
+		if (!matchesClient(settings.client, clientId)) continue;
+
+		try {
+			const data = getState(settings.client);
+			const connected = isConnected(settings.client);
+			const triggered = connected && isAlertTriggered(settings, Math.floor((data.stats?.runEnergy || 0) / 100), 100);
+			const alert = isAlertShown(id, settings, triggered, () => updateRunMeters());
+			const pending = isTogglePending(id, isRunEnabled(data));
+
+			// Only render when something the image is drawn from changed
+			const input = JSON.stringify([data.stats?.runEnergy, isRunEnabled(data), connected, pending, alert, settings]);
+			renderKey(action, input, () => createRunMeterImage(data, settings, pending, alert));
+		} catch (error) {
+			console.log(`[RunMeter] Error updating button ${id}:`, error);
+		}
+	}
+
+	recordRenderTiming('RunMeter', performance.now() - startedAt);
 }
 
 /**
  * Creates an image with the run meter visualization
  */
-function createRunMeterImage(data: RuneLiteState, settings: RunMeterSettings): string {
+function createRunMeterImage(data: RuneLiteState, settings: RunMeterSettings, pending: boolean = false, alert: boolean = false): string {
+	const connected = isConnected(settings.client);
 	const runEnergy = data.stats?.runEnergy || 0;
-	const runEnabled = data.stats?.runEnabled || false;
+	// While a toggle is pending, optimistically draw the value it will change to
+	const runEnabled = isRunEnabled(data) !== pending;
 
 	// Calculate percentage (runEnergy is 0-10000)
 	const energyPercent = runEnergy / 10000;
@@ -175,8 +226,8 @@ function createRunMeterImage(data: RuneLiteState, settings: RunMeterSettings): s
 	const textColor = settings.coloredNumbers === true ? getPercentColor(energyPercent) : '#FFFFFF';
 	const maskHeight = Math.round(144 * (1 - energyPercent));
 
-	const backgroundData = getBackgroundImage(runEnabled);
-	const overlayData = getOverlayImage(runEnabled);
+	const backgroundData = getBackgroundImage(runEnabled, settings.theme);
+	const overlayData = getOverlayImage(runEnabled, settings.theme);
 
 	let svg = `<svg width="144" height="144" xmlns="http://www.w3.org/2000/svg">`;
 
@@ -194,12 +245,24 @@ function createRunMeterImage(data: RuneLiteState, settings: RunMeterSettings): s
 		svg += `<image href="${overlayData}" x="0" y="0" width="144" height="144"/>`;
 	}
 
-	if (settings.showNumbers !== false) {
+	if (settings.showNumbers !== false && connected) {
 		const textPos = getTextPosition(settings.textPosition);
 		svg += `<text x="${textPos.x}" y="${textPos.y}" font-family="Arial" font-size="36" font-weight="bold" text-anchor="middle" dominant-baseline="middle" stroke="#000000" stroke-width="3" fill="none">${displayValue}</text>`;
 		svg += `<text x="${textPos.x}" y="${textPos.y}" font-family="Arial" font-size="36" font-weight="bold" text-anchor="middle" dominant-baseline="middle" fill="${textColor}">${displayValue}</text>`;
 	}
 
+	if (alert) {
+		svg += createAlertOverlay(settings);
+	}
+
+	if (pending) {
+		svg += createPendingOverlay();
+	}
+
+	if (!connected) {
+		svg += createNoSignalOverlay();
+	}
+
 	svg += `</svg>`;
 
 	const svgBase64 = Buffer.from(svg).toString('base64');
@@ -223,8 +286,14 @@ function getTextPosition(position: TextPosition | undefined): { x: number; y: nu
 	}
 }
 
-type RunMeterSettings = {
+type RunMeterSettings = MeterAlertSettings & {
 	coloredNumbers?: boolean;
 	textPosition?: TextPosition;
 	showNumbers?: boolean;
+	pressToToggle?: boolean;
+	/** Theme for this key, or "global" to use the theme chosen for all keys */
+	theme?: string;
+	/** Stat shown when placed on a Stream Deck+ dial */
+	dialStat?: DialStat;
+	client?: string;
 };
@@ -0,0 +1,321 @@
+import { action, SingletonAction, WillAppearEvent, WillDisappearEvent, KeyDownEvent, DidReceiveSettingsEvent } from "@elgato/streamdeck";
+import { getState, addStateListener, removeStateListener, isConnected, matchesClient, resolveClientId, RuneLiteState, SkillStats } from '../state-server';
+import { createNoSignalOverlay } from '../no-signal';
+import { recordRenderTiming } from '../metrics';
+import { SkillName, MAX_LEVEL, getXpForLevel, formatSkillName } from '../skills';
+
+/**
+ * Map to store skill meter button instances by context
+ */
+const activeButtons = new Map<string, { action: any; settings: SkillMeterSettings }>();
+
+/**
+ * Last image sent to each button to avoid unnecessary image updates
+ */
+const lastImages = new Map<string, string>();
+
+/**
+ * XP gained over this window is used for the XP/hour rate
+ */
+const RATE_WINDOW_MS = 10 * 60 * 1000;
+
+/**
+ * Shortest elapsed time the rate is averaged over, so the first drop of XP does not show a huge rate
+ */
+const MIN_RATE_ELAPSED_MS = 60 * 1000;
+
+/**
+ * How often keys are redrawn so XP/hour and ETA decay while no XP is gained
+ */
+const REFRESH_INTERVAL_MS = 10 * 1000;
+
+/**
+ * XP samples seen by one key since its baseline was last reset
+ */
+type XpSession = {
+	skill: SkillName;
+	clientId: string | null;
+	/** XP totals in the order they were seen; XP is unchanged between samples */
+	samples: { t: number; xp: number }[];
+};
+
+/**
+ * XP tracking per button
+ */
+const sessions = new Map<string, XpSession>();
+
+/**
+ * Timer that redraws keys while any are visible
+ */
+let refreshTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Records the XP seen by a key, starting a new session when the skill or client changes or XP goes backwards
+ */
+function trackXp(id: string, settings: SkillMeterSettings, xp: number, now: number): XpSession {
+	const skill = settings.skill || 'attack';
+	const clientId = resolveClientId(settings.client);
+
+	let session = sessions.get(id);
+	const last = session?.samples[session.samples.length - 1];
+	if (!session || !last || session.skill !== skill || session.clientId !== clientId || xp < last.xp) {
+		session = { skill, clientId, samples: [{ t: now, xp }] };
+		sessions.set(id, session);
+		return session;
+	}
+
+	if (xp > last.xp) {
+		session.samples.push({ t: now, xp });
+	}
+
+	// Keep the last sample before the window, it holds the XP at the start of the window
+	const windowStart = now - RATE_WINDOW_MS;
+	while (session.samples.length > 1 && session.samples[1].t <= windowStart) {
+		session.samples.shift();
+	}
+
+	return session;
+}
+
+/**
+ * Gets the XP/hour gained over the rolling window
+ */
+function getXpPerHour(session: XpSession, now: number): number {
+	const windowStart = Math.max(now - RATE_WINDOW_MS, session.samples[0].t);
+
+	let startXp = session.samples[0].xp;
+	for (const sample of session.samples) {
+		if (sample.t > windowStart) break;
+		startXp = sample.xp;
+	}
+
+	const gained = session.samples[session.samples.length - 1].xp - startXp;
+	const elapsed = Math.max(now - windowStart, MIN_RATE_ELAPSED_MS);
+	return gained / elapsed * 3600000;
+}
+
+/**
+ * Formats XP compactly, e.g. 9,876, 123.4K or 1.23M
+ */
+function formatXp(xp: number): string {
+	const value = Math.round(xp);
+	if (value >= 1000000) {
+		return `${(value / 1000000).toFixed(2)}M`;
+	}
+	if (value >= 10000) {
+		return `${(value / 1000).toFixed(1)}K`;
+	}
+	return value.toLocaleString('en-US');
+}
+
+/**
+ * Formats a duration as hours and minutes, e.g. 3h 12m
+ */
+function formatDuration(ms: number): string {
+	const minutes = Math.ceil(ms / 60000);
+	if (minutes < 60) {
+		return `${minutes}m`;
+	}
+	const hours = Math.floor(minutes / 60);
+	if (hours > 99) {
+		return '>99h';
+	}
+	return `${hours}h ${minutes % 60}m`;
+}
+
+/**
+ * Gets the level text color: green when boosted, red when drained
+ */
+function getBoostColor(skill: SkillStats): string {
+	if (skill.boostedLevel > skill.level) return '#00FF00';
+	if (skill.boostedLevel < skill.level) return '#FF3030';
+	return '#FFFFFF';
+}
+
+/**
+ * Gets the large and small text shown for the chosen display mode
+ */
+function getDisplayText(skill: SkillStats, mode: DisplayMode, xpPerHour: number): { main: string; sub: string; color: string } {
+	const maxed = skill.level >= MAX_LEVEL;
+	const remaining = maxed ? 0 : getXpForLevel(skill.level + 1) - skill.xp;
+	const nextLevel = maxed ? 'MAX' : `to ${skill.level + 1}`;
+
+	switch (mode) {
+		case 'xpRemaining':
+			return { main: maxed ? 'MAX' : formatXp(remaining), sub: maxed ? `${skill.level}` : nextLevel, color: '#FFFFFF' };
+		case 'xpPerHour':
+			return { main: formatXp(xpPerHour), sub: 'XP/hr', color: '#FFFFFF' };
+		case 'eta':
+			return { main: maxed || xpPerHour <= 0 ? '--' : formatDuration(remaining / xpPerHour * 3600000), sub: nextLevel, color: '#FFFFFF' };
+		case 'level':
+		default:
+			return { main: `${skill.boostedLevel}/${skill.level}`, sub: maxed ? formatXp(skill.xp) : `${formatXp(remaining)} ${nextLevel}`, color: getBoostColor(skill) };
+	}
+}
+
+/**
+ * Creates a skill meter image with a progress ring towards the next level
+ */
+function createSkillMeterImage(skillName: SkillName, skill: SkillStats | undefined, mode: DisplayMode, xpPerHour: number, connected: boolean): string {
+	let progress = 0;
+	if (skill) {
+		if (skill.level >= MAX_LEVEL) {
+			progress = 1;
+		} else {
+			const levelXp = getXpForLevel(skill.level);
+			progress = (skill.xp - levelXp) / (getXpForLevel(skill.level + 1) - levelXp);
+		}
+	}
+	progress = Math.max(0, Math.min(1, progress));
+
+	const radius = 62;
+	const circumference = 2 * Math.PI * radius;
+
+	let svg = `<svg width="144" height="144" xmlns="http://www.w3.org/2000/svg">`;
+
+	svg += `<rect width="144" height="144" fill="#1E1A15"/>`;
+	svg += `<circle cx="72" cy="72" r="${radius}" fill="none" stroke="#3A332A" stroke-width="8"/>`;
+	if (progress > 0) {
+		svg += `<circle cx="72" cy="72" r="${radius}" fill="none" stroke="#C8A200" stroke-width="8" stroke-dasharray="${(circumference * progress).toFixed(2)} ${circumference.toFixed(2)}" transform="rotate(-90 72 72)"/>`;
+	}
+
+	svg += `<text x="72" y="42" font-family="Arial" font-size="16" font-weight="bold" text-anchor="middle" fill="#FF981F">${formatSkillName(skillName)}</text>`;
+
+	if (skill && connected) {
+		const text = getDisplayText(skill, mode, xpPerHour);
+		svg += `<text x="72" y="84" font-family="Arial" font-size="30" font-weight="bold" text-anchor="middle" stroke="#000000" stroke-width="3" fill="none">${text.main}</text>`;
+		svg += `<text x="72" y="84" font-family="Arial" font-size="30" font-weight="bold" text-anchor="middle" fill="${text.color}">${text.main}</text>`;
+		svg += `<text x="72" y="110" font-family="Arial" font-size="16" text-anchor="middle" fill="#9D9D9D">${text.sub}</text>`;
+	}
+
+	if (!connected) {
+		svg += createNoSignalOverlay();
+	}
+
+	svg += `</svg>`;
+
+	const svgBase64 = Buffer.from(svg).toString('base64');
+	return `data:image/svg+xml;base64,${svgBase64}`;
+}
+
+/**
+ * State slices this action renders from
+ */
+const STATE_SELECTORS = ['stats.skills'];
+
+/**
+ * State listener function
+ */
+function onStateUpdate(_state: RuneLiteState, clientId?: string): void {
+	updateSkillMeters(clientId);
+}
+
+/**
+ * Skill Meter action
+ */
+@action({ UUID: "com.catagris.runelite.skillmeter" })
+export class SkillMeter extends SingletonAction<SkillMeterSettings> {
+	override async onWillAppear(ev: WillAppearEvent<SkillMeterSettings>): Promise<void> {
+		const settings = ev.payload.settings;
+
+		if (!settings.skill) {
+			settings.skill = 'attack';
+			settings.displayMode = 'level';
+			await ev.action.setSettings(settings);
+		}
+
+		// Register listener and refresh timer if first button
+		if (activeButtons.size === 0) {
+			addStateListener(onStateUpdate, STATE_SELECTORS);
+			refreshTimer = setInterval(() => updateSkillMeters(), REFRESH_INTERVAL_MS);
+		}
+
+		activeButtons.set(ev.action.id, {
+			action: ev.action,
+			settings: settings
+		});
+
+		// Immediately render with current state
+		updateSkillMeters();
+	}
+
+	override async onWillDisappear(ev: WillDisappearEvent<SkillMeterSettings>): Promise<void> {
+		activeButtons.delete(ev.action.id);
+		lastImages.delete(ev.action.id);
+		sessions.delete(ev.action.id);
+
+		if (activeButtons.size === 0) {
+			removeStateListener(onStateUpdate);
+			if (refreshTimer) {
+				clearInterval(refreshTimer);
+				refreshTimer = null;
+			}
+		}
+	}
+
+	override async onDidReceiveSettings(ev: DidReceiveSettingsEvent<SkillMeterSettings>): Promise<void> {
+		const settings = ev.payload.settings;
+
+		const buttonData = activeButtons.get(ev.action.id);
+		if (buttonData) {
+			buttonData.settings = settings;
+		}
+
+		updateSkillMeters();
+	}
+
+	/**
+	 * Resets the XP/hour baseline to the current XP
+	 */
+	override async onKeyDown(ev: KeyDownEvent<SkillMeterSettings>): Promise<void> {
+		sessions.delete(ev.action.id);
+		await updateSkillMeters();
+		await ev.action.showOk();
+	}
+}
+
+/**
+ * Updates the skill meter buttons showing a client, or all buttons if no client is given
+ */
+async function updateSkillMeters(clientId?: string): Promise<void> {
+	if (activeButtons.size === 0) return;
+
+	const startedAt = performance.now();
+	const now = Date.now();
+
+	await Promise.all(
+		Array.from(activeButtons.entries())
+			.filter(([, buttonData]) => matchesClient(buttonData.settings.client, clientId))
+			.map(async ([id, buttonData]) => {
+				try {
+					const settings = buttonData.settings;
+					const skillName = settings.skill || 'attack';
+					const skill = getState(settings.client).stats?.skills?.[skillName];
+
+					let xpPerHour = 0;
+					if (skill) {
+						xpPerHour = getXpPerHour(trackXp(id, settings, skill.xp, now), now);
+					}
+
+					// Only update image if it changed
+					const image = createSkillMeterImage(skillName, skill, settings.displayMode || 'level', xpPerHour, isConnected(settings.client));
+					if (lastImages.get(id) !== image) {
+						await buttonData.action.setImage(image);
+						lastImages.set(id, image);
+					}
+				} catch (error) {
+					console.log(`[SkillMeter] Error updating button ${id}:`, error);
+				}
+			})
+	);
+
+	recordRenderTiming('SkillMeter', performance.now() - startedAt);
+}
+
+type DisplayMode = 'level' | 'xpRemaining' | 'xpPerHour' | 'eta';
+
+type SkillMeterSettings = {
+	skill?: SkillName;
+	displayMode?: DisplayMode;
+	client?: string;
+};
@@ -1,7 +1,12 @@
-import { action, SingletonAction, WillAppearEvent, WillDisappearEvent, DidReceiveSettingsEvent } from "@elgato/streamdeck";
-import * as fs from 'fs';
-import * as path from 'path';
-import { getState, addStateListener, removeStateListener, RuneLiteState } from '../state-server';
+import { action, SingletonAction, WillAppearEvent, WillDisappearEvent, KeyDownEvent, DidReceiveSettingsEvent, DialRotateEvent, DialDownEvent } from "@elgato/streamdeck";
+import { getState, addStateListener, removeStateListener, isConnected, matchesClient, RuneLiteState } from '../state-server';
+import { createNoSignalOverlay } from '../no-signal';
+import { recordRenderTiming } from '../metrics';
+import { renderKey, invalidateKey, forgetKey } from '../key-renderer';
+import { isAlertTriggered, isAlertShown, clearAlert, createAlertOverlay, MeterAlertSettings } from '../meter-alerts';
+import { loadThemeImage, addThemeListener, removeThemeListener } from '../themes';
+import { addDial, removeDial, updateDialSettings, rotateDial, pressDial, DialStat } from '../dial-meters';
+import { isTogglePending, sendToggle, createPendingOverlay } from '../pending-toggles';
 
 /**
  * Map to store special attack meter button instances by context
@@ -13,57 +18,23 @@ const activeButtons = new Map<string, any>();
  */
 const cachedSettings = new Map<string, SpecialAttackMeterSettings>();
 
-/**
- * Cached images as base64 data URI
- */
-let cachedOrbOverlay: string | null = null;
-let cachedEnabledFill: string | null = null;
-let cachedAvailableFill: string | null = null;
-let cachedUnavailableFill: string | null = null;
-
-/**
- * Loads and caches an image as base64
- */
-function loadImage(filename: string): string {
-	try {
-		const imgPath = path.join(process.cwd(), 'imgs', 'actions', 'special-attack-meter', filename);
-		const imageBuffer = fs.readFileSync(imgPath);
-		return `data:image/png;base64,${imageBuffer.toString('base64')}`;
-	} catch (error) {
-		console.log('[SpecialAttackMeter] Error loading image:', filename, error);
-		return '';
-	}
-}
-
 /**
  * Gets the orb overlay image
  */
-function getOrbOverlay(): string {
-	if (!cachedOrbOverlay) {
-		cachedOrbOverlay = loadImage('special_attack_orb.png');
-	}
-	return cachedOrbOverlay;
+function getOrbOverlay(theme?: string): string {
+	return loadThemeImage('specialAttack.overlay', 'special-attack-meter/special_attack_orb.png', theme);
 }
 
 /**
  * Gets the appropriate fill image based on state
  */
-function getFillImage(enabled: boolean, available: boolean): string {
+function getFillImage(enabled: boolean, available: boolean, theme?: string): string {
 	if (enabled) {
-		if (!cachedEnabledFill) {
-			cachedEnabledFill = loadImage('special_attack_orb_enable_fill.png');
-		}
-		return cachedEnabledFill;
+		return loadThemeImage('specialAttack.fill.enabled', 'special-attack-meter/special_attack_orb_enable_fill.png', theme);
 	} else if (available) {
-		if (!cachedAvailableFill) {
-			cachedAvailableFill = loadImage('special_attack_orb_available_fill.png');
-		}
-		return cachedAvailableFill;
+		return loadThemeImage('specialAttack.fill.available', 'special-attack-meter/special_attack_orb_available_fill.png', theme);
 	} else {
-		if (!cachedUnavailableFill) {
-			cachedUnavailableFill = loadImage('special_attack_orb_unavailable_fill.png');
-		}
-		return cachedUnavailableFill;
+		return loadThemeImage('specialAttack.fill.unavailable', 'special-attack-meter/special_attack_orb_unavailable_fill.png', theme);
 	}
 }
 
@@ -88,11 +59,39 @@ function getPercentColor(percent: number): string {
 	return `#${r.toString(16).padStart(2, '0').toUpperCase()}${g.toString(16).padStart(2, '0').toUpperCase()}00`;
 }
 
+/**
+ * Returns true if the special attack is armed
+ */
+function isSpecialAttackEnabled(data: RuneLiteState): boolean {
+	return data.stats?.specialAttackEnabled || false;
+}
+
+/**
+ * State slices this action renders from
+ */
+const STATE_SELECTORS = ['stats.specialAttack', 'stats.specialAttackEnabled', 'stats.specialAttackAvailable'];
+
 /**
  * State listener function
  */
-function onStateUpdate(state: RuneLiteState): void {
-	updateSpecialAttackMeters(state);
+function onStateUpdate(_state: RuneLiteState, clientId?: string): void {
+	// A refresh of every client (e.g. the server failed to start) must redraw even unchanged buttons
+	if (clientId === undefined) {
+		for (const id of activeButtons.keys()) {
+			invalidateKey(id);
+		}
+	}
+	updateSpecialAttackMeters(clientId);
+}
+
+/**
+ * Theme listener function
+ */
+function onThemeChange(): void {
+	for (const id of activeButtons.keys()) {
+		invalidateKey(id);
+	}
+	updateSpecialAttackMeters();
 }
 
 /**
@@ -109,70 +108,126 @@ export class SpecialAttackMeter extends SingletonAction<SpecialAttackMeterSettin
 		if (settings.showNumbers === undefined) {
 			settings.showNumbers = true;
 		}
+		if (settings.pressToToggle === undefined) {
+			settings.pressToToggle = true;
+		}
 
 		await ev.action.setSettings(settings);
 
+		// Dials show the meter on the touch strip instead of as a key image
+		if (ev.action.isDial()) {
+			addDial(ev.action, settings, 'specialAttack');
+			return;
+		}
+
 		// Register listener if first button
 		if (activeButtons.size === 0) {
-			addStateListener(onStateUpdate);
+			addStateListener(onStateUpdate, STATE_SELECTORS);
+			addThemeListener(onThemeChange);
 		}
 
 		activeButtons.set(ev.action.id, ev.action);
 		cachedSettings.set(ev.action.id, settings);
 
 		// Immediately render with current state
-		updateSpecialAttackMeters(getState());
+		updateSpecialAttackMeters();
 	}
 
 	override async onWillDisappear(ev: WillDisappearEvent<SpecialAttackMeterSettings>): Promise<void> {
+		removeDial(ev.action.id);
+		clearAlert(ev.action.id);
+		forgetKey(ev.action.id);
 		activeButtons.delete(ev.action.id);
 		cachedSettings.delete(ev.action.id);
 
 		if (activeButtons.size === 0) {
 			removeStateListener(onStateUpdate);
+			removeThemeListener(onThemeChange);
 		}
 	}
 
 	override async onDidReceiveSettings(ev: DidReceiveSettingsEvent<SpecialAttackMeterSettings>): Promise<void> {
 		const settings = ev.payload.settings;
+		if (ev.action.isDial()) {
+			updateDialSettings(ev.action.id, settings);
+			return;
+		}
 		cachedSettings.set(ev.action.id, settings);
-		updateSpecialAttackMeters(getState());
+		updateSpecialAttackMeters();
+	}
+
+	/**
+	 * Arms or disarms the special attack when pressing the key is enabled
+	 */
+	override async onKeyDown(ev: KeyDownEvent<SpecialAttackMeterSettings>): Promise<void> {
+		const settings = ev.payload.settings;
+		if (settings.pressToToggle === false) {
+			return;
+		}
+		await sendToggle(ev.action, { type: 'toggleSpecialAttack' }, settings.client, isSpecialAttackEnabled(getState(settings.client)), () => updateSpecialAttackMeters());
+	}
+
+	/**
+	 * Cycles which stat the dial shows
+	 */
+	override async onDialRotate(ev: DialRotateEvent<SpecialAttackMeterSettings>): Promise<void> {
+		await rotateDial(ev.action.id, ev.payload.ticks);
+	}
+
+	/**
+	 * Runs the key press of the stat the dial shows
+	 */
+	override async onDialDown(ev: DialDownEvent<SpecialAttackMeterSettings>): Promise<void> {
+		await pressDial(ev.action.id);
 	}
 }
 
 /**
- * Updates all special attack meter buttons with current state
+ * Updates the special attack meter buttons showing a client, or all buttons if no client is given
  */
-async function updateSpecialAttackMeters(state: RuneLiteState): Promise<void> {
+function updateSpecialAttackMeters(clientId?: string): void {
 	if (activeButtons.size === 0) return;
 
-	await Promise.all(
-		Array.from(activeButtons.entries()).map(async ([id, action]) => {
-			try {
-				const settings = cachedSettings.get(id) || {};
-				const image = createSpecialAttackMeterImage(state, settings);
-				await action.setImage(image);
-			} catch (error) {
-				console.log(`[SpecialAttackMeter] Error updating button ${id}:`, error);
-			}
-		})
-	);
+	const startedAt = performance.now();
+
+	for (const [id, action] of activeButtons) {
+		const settings = cachedSettings.get(id) || {};
+		if (!matchesClient(settings.client, clientId)) continue;
+
+		try {
+			const data = getState(settings.client);
+			const connected = isConnected(settings.client);
+			const triggered = connected && isAlertTriggered(settings, data.stats?.specialAttack || 0, 100);
+			const alert = isAlertShown(id, settings, triggered, () => updateSpecialAttackMeters());
+			const pending = isTogglePending(id, isSpecialAttackEnabled(data));
+
+			// Only render when something the image is drawn from changed
+			const input = JSON.stringify([data.stats?.specialAttack, isSpecialAttackEnabled(data), data.stats?.specialAttackAvailable, connected, pending, alert, settings]);
+			renderKey(action, input, () => createSpecialAttackMeterImage(data, settings, pending, alert));
+		} catch (error) {
+			console.log(`[SpecialAttackMeter] Error updating button ${id}:`, error);
+		}
+	}
+
+	recordRenderTiming('SpecialAttackMeter', performance.now() - startedAt);
 }
 
 /**
  * Creates an image with the special attack meter visualization
  */
-function createSpecialAttackMeterImage(data: RuneLiteState, settings: SpecialAttackMeterSettings): string {
+function createSpecialAttackMeterImage(data: RuneLiteState, settings: SpecialAttackMeterSettings, pending: boolean = false, alert: boolean = false): string {
+	const connected = isConnected(settings.client);
 	const specialAttack = data.stats?.specialAttack || 0;
-	const specialAttackEnabled = data.stats?.specialAttackEnabled || false;
+	// While a toggle is pending, optimistically draw the value it will change to
+	const specialAttackEnabled = isSpecialAttackEnabled(data) !== pending;
 	const specialAttackAvailable = data.stats?.specialAttackAvailable || false;
 
 	const specPercent = specialAttack / 100;
 	const textColor = settings.coloredNumbers === true ? getPercentColor(specPercent) : '#FFFFFF';
 	const maskHeight = Math.round(144 * (1 - specPercent));
 
-	const fillImageData = getFillImage(specialAttackEnabled, specialAttackAvailable);
-	const orbOverlayData = getOrbOverlay();
+	const fillImageData = getFillImage(specialAttackEnabled, specialAttackAvailable, settings.theme);
+	const orbOverlayData = getOrbOverlay(settings.theme);
 
 	let svg = `<svg width="144" height="144" xmlns="http://www.w3.org/2000/svg">`;
 
@@ -190,12 +245,24 @@ function createSpecialAttackMeterImage(data: RuneLiteState, settings: SpecialAtt
 		svg += `<image href="${orbOverlayData}" x="0" y="0" width="144" height="144"/>`;
 	}
 
-	if (settings.showNumbers !== false) {
+	if (settings.showNumbers !== false && connected) {
 		const textPos = getTextPosition(settings.textPosition);
 		svg += `<text x="${textPos.x}" y="${textPos.y}" font-family="Arial" font-size="36" font-weight="bold" text-anchor="middle" dominant-baseline="middle" stroke="#000000" stroke-width="3" fill="none">${specialAttack}</text>`;
 		svg += `<text x="${textPos.x}" y="${textPos.y}" font-family="Arial" font-size="36" font-weight="bold" text-anchor="middle" dominant-baseline="middle" fill="${textColor}">${specialAttack}</text>`;
 	}
 
+	if (alert) {
+		svg += createAlertOverlay(settings);
+	}
+
+	if (pending) {
+		svg += createPendingOverlay();
+	}
+
+	if (!connected) {
+		svg += createNoSignalOverlay();
+	}
+
 	svg += `</svg>`;
 
 	const svgBase64 = Buffer.from(svg).toString('base64');
@@ -219,8 +286,14 @@ function getTextPosition(position: TextPosition | undefined): { x: number; y: nu
 	}
 }
 
-type SpecialAttackMeterSettings = {
+type SpecialAttackMeterSettings = MeterAlertSettings & {
 	coloredNumbers?: boolean;
 	textPosition?: TextPosition;
 	showNumbers?: boolean;
+	pressToToggle?: boolean;
+	/** Theme for this key, or "global" to use the theme chosen for all keys */
+	theme?: string;
+	/** Stat shown when placed on a Stream Deck+ dial */
+	dialStat?: DialStat;
+	client?: string;
 };
@@ -1,38 +1,16 @@
 import { action, SingletonAction, WillAppearEvent, WillDisappearEvent, KeyDownEvent, DidReceiveSettingsEvent } from "@elgato/streamdeck";
 import { Hardware } from "keysender";
-import * as fs from 'fs';
-import * as path from 'path';
-import { getState, addStateListener, removeStateListener, RuneLiteState } from '../state-server';
+import { getState, addStateListener, removeStateListener, isConnected, matchesClient, resolveClientId, RuneLiteState } from '../state-server';
+import { createNoSignalOverlay } from '../no-signal';
+import { recordRenderTiming } from '../metrics';
+import { sendCommand, isCommandConsumerConnected } from '../command-queue';
+import { loadThemeImage, addThemeListener, removeThemeListener } from '../themes';
 
 /**
  * Map to store tab button instances by context
  */
 const activeButtons = new Map<string, { action: any; settings: TabSettings }>();
 
-/**
- * Cached images as base64 data URI
- */
-const cachedImages = new Map<string, string>();
-
-/**
- * Loads and caches an image as base64
- */
-function loadImage(filename: string): string {
-	const cached = cachedImages.get(filename);
-	if (cached) return cached;
-
-	try {
-		const imgPath = path.join(process.cwd(), 'imgs', 'actions', 'tab-button', filename);
-		const imageBuffer = fs.readFileSync(imgPath);
-		const dataUri = `data:image/png;base64,${imageBuffer.toString('base64')}`;
-		cachedImages.set(filename, dataUri);
-		return dataUri;
-	} catch (error) {
-		console.log('[TabButton] Error loading image:', filename, error);
-		return '';
-	}
-}
-
 /**
  * Maps tab names to their icon filenames
  */
@@ -74,12 +52,13 @@ const DEFAULT_KEYS: { [key: string]: string } = {
 /**
  * Creates a tab button image with layered background and icon
  */
-function createTabImage(tabName: string, isActive: boolean): string {
-	const backgroundFile = isActive ? 'backgroud_active.png' : 'backgroud_unactive.png';
-	const iconFile = TAB_ICONS[tabName.toLowerCase()] || 'inventory.png';
+function createTabImage(tabName: string, isActive: boolean, connected: boolean = true, theme?: string): string {
+	const tab = TAB_ICONS[tabName.toLowerCase()] ? tabName.toLowerCase() : 'inventory';
 
-	const backgroundData = loadImage(backgroundFile);
-	const iconData = loadImage(iconFile);
+	const backgroundData = isActive
+		? loadThemeImage('tab.background.active', 'tab-button/backgroud_active.png', theme)
+		: loadThemeImage('tab.background.inactive', 'tab-button/backgroud_unactive.png', theme);
+	const iconData = loadThemeImage(`tab.icon.${tab}`, `tab-button/${TAB_ICONS[tab]}`, theme);
 
 	let svg = `<svg width="144" height="144" xmlns="http://www.w3.org/2000/svg">`;
 
@@ -91,6 +70,10 @@ function createTabImage(tabName: string, isActive: boolean): string {
 		svg += `<image href="${iconData}" x="0" y="0" width="144" height="144"/>`;
 	}
 
+	if (!connected) {
+		svg += createNoSignalOverlay();
+	}
+
 	svg += `</svg>`;
 
 	const svgBase64 = Buffer.from(svg).toString('base64');
@@ -100,13 +83,30 @@ function createTabImage(tabName: string, isActive: boolean): string {
 /**
  * Last known states for each button to avoid unnecessary image updates
  */
-const lastButtonStates = new Map<string, { isActive: boolean; tabName: string }>();
+const lastButtonStates = new Map<string, { isActive: boolean; tabName: string; connected: boolean }>();
+
+/**
+ * State slices this action renders from
+ */
+const STATE_SELECTORS = ['activeTab'];
 
 /**
  * State listener function
  */
-function onStateUpdate(state: RuneLiteState): void {
-	updateTabButtons(state);
+function onStateUpdate(_state: RuneLiteState, clientId?: string): void {
+	// A refresh of every client (e.g. the server failed to start) must redraw even unchanged buttons
+	if (clientId === undefined) {
+		lastButtonStates.clear();
+	}
+	updateTabButtons(clientId);
+}
+
+/**
+ * Theme listener function
+ */
+function onThemeChange(): void {
+	lastButtonStates.clear();
+	updateTabButtons();
 }
 
 /**
@@ -133,7 +133,8 @@ export class TabButton extends SingletonAction<TabSettings> {
 
 		// Register listener if first button
 		if (activeButtons.size === 0) {
-			addStateListener(onStateUpdate);
+			addStateListener(onStateUpdate, STATE_SELECTORS);
+			addThemeListener(onThemeChange);
 		}
 
 		activeButtons.set(ev.action.id, {
@@ -142,11 +143,11 @@ export class TabButton extends SingletonAction<TabSettings> {
 		});
 
 		// Set initial image (inactive state)
-		const image = createTabImage(settings.tabName, false);
+		const image = createTabImage(settings.tabName, false, true, settings.theme);
 		await ev.action.setImage(image);
 
 		// Immediately render with current state
-		updateTabButtons(getState());
+		updateTabButtons();
 	}
 
 	override async onWillDisappear(ev: WillDisappearEvent<TabSettings>): Promise<void> {
@@ -155,6 +156,7 @@ export class TabButton extends SingletonAction<TabSettings> {
 
 		if (activeButtons.size === 0) {
 			removeStateListener(onStateUpdate);
+			removeThemeListener(onThemeChange);
 		}
 	}
 
@@ -168,11 +170,24 @@ export class TabButton extends SingletonAction<TabSettings> {
 
 		// Clear last state to force update with new tab name
 		lastButtonStates.delete(ev.action.id);
-		updateTabButtons(getState());
+		updateTabButtons();
 	}
 
 	override async onKeyDown(ev: KeyDownEvent<TabSettings>): Promise<void> {
 		const settings = ev.payload.settings;
+
+		const clientId = resolveClientId(settings.client) ?? undefined;
+
+		// Prefer the command channel when RuneLite is polling for commands
+		if (isCommandConsumerConnected(clientId)) {
+			const result = await sendCommand({ type: 'openTab', tab: (settings.tabName || 'inventory').toLowerCase() }, clientId);
+			if (result.status !== 'acknowledged') {
+				console.log(`[TabButton] openTab command ${result.status}:`, result.error);
+				await ev.action.showAlert();
+			}
+			return;
+		}
+
 		const keyToPress = (settings.keyToPress || "escape") as "f1" | "f2" | "f3" | "f4" | "f5" | "f6" | "f7" | "f8" | "f9" | "f10" | "f11" | "f12" | "escape";
 
 		try {
@@ -187,28 +202,36 @@ export class TabButton extends SingletonAction<TabSettings> {
 /**
  * Updates all tab buttons with current state
  */
-async function updateTabButtons(state: RuneLiteState): Promise<void> {
+async function updateTabButtons(clientId?: string): Promise<void> {
 	if (activeButtons.size === 0) return;
 
-	const activeTab = state.activeTab?.toLowerCase();
+	const startedAt = performance.now();
 
 	await Promise.all(
-		Array.from(activeButtons.entries()).map(async ([id, buttonData]) => {
-			const tabName = (buttonData.settings.tabName || 'inventory').toLowerCase();
-			const isActive = tabName === activeTab;
-			const lastState = lastButtonStates.get(id);
-
-			// Only update image if state or tab name changed
-			if (lastState?.isActive !== isActive || lastState?.tabName !== tabName) {
-				const image = createTabImage(tabName, isActive);
-				await buttonData.action.setImage(image);
-				lastButtonStates.set(id, { isActive, tabName });
-			}
-		})
+		Array.from(activeButtons.entries())
+			.filter(([, buttonData]) => matchesClient(buttonData.settings.client, clientId))
+			.map(async ([id, buttonData]) => {
+				const tabName = (buttonData.settings.tabName || 'inventory').toLowerCase();
+				const isActive = tabName === getState(buttonData.settings.client).activeTab?.toLowerCase();
+				const connected = isConnected(buttonData.settings.client);
+				const lastState = lastButtonStates.get(id);
+
+				// Only update image if state, tab name or connection changed
+				if (lastState?.isActive !== isActive || lastState?.tabName !== tabName || lastState?.connected !== connected) {
+					const image = createTabImage(tabName, isActive, connected, buttonData.settings.theme);
+					await buttonData.action.setImage(image);
+					lastButtonStates.set(id, { isActive, tabName, connected });
+				}
+			})
 	);
+
+	recordRenderTiming('TabButton', performance.now() - startedAt);
 }
 
 type TabSettings = {
 	tabName?: string;
 	keyToPress?: string;
+	/** Theme for this key, or "global" to use the theme chosen for all keys */
+	theme?: string;
+	client?: string;
 };
@@ -0,0 +1,238 @@
+import { action, SingletonAction, WillAppearEvent, WillDisappearEvent, DidReceiveSettingsEvent } from "@elgato/streamdeck";
+import { getState, addStateListener, removeStateListener, addTickListener, removeTickListener, isConnected, matchesClient, RuneLiteState } from '../state-server';
+import { createNoSignalOverlay, getNoSignalLabel } from '../no-signal';
+import { recordRenderTiming } from '../metrics';
+
+/**
+ * Map to store tick metronome button instances by context
+ */
+const activeButtons = new Map<string, { action: any; settings: TickMetronomeSettings }>();
+
+/**
+ * Last image sent to each button to avoid unnecessary image updates
+ */
+const lastImages = new Map<string, string>();
+
+/**
+ * Last tick seen by each button, so state updates can redraw its current position
+ */
+const lastTicks = new Map<string, number>();
+
+/**
+ * Timers returning highlighted keys to their normal frame
+ */
+const pulseTimers = new Map<string, NodeJS.Timeout>();
+
+/**
+ * How long the click highlight stays lit, well inside a 600ms tick
+ */
+const PULSE_MS = 200;
+
+/**
+ * Attack speed used until RuneLite reports the weapon's, the speed of most weapons
+ */
+const DEFAULT_ATTACK_SPEED = 4;
+
+/**
+ * Longest cycle drawn as dots; longer cycles only show the countdown
+ */
+const MAX_DOTS = 10;
+
+/**
+ * Rendered frames by cycle, position, highlight and connection. Ticks only pick a frame, they never build SVG.
+ */
+const frameCache = new Map<string, string>();
+
+/**
+ * Creates a metronome frame: the ticks left until the click tick, with a dot per tick of the cycle
+ */
+function createFrame(cycle: number, position: number, highlighted: boolean, connected: boolean): string {
+	let svg = `<svg width="144" height="144" xmlns="http://www.w3.org/2000/svg">`;
+
+	svg += `<rect width="144" height="144" fill="${highlighted ? '#00C853' : '#1E1A15'}"/>`;
+
+	if (highlighted) {
+		svg += `<text x="72" y="84" font-family="Arial" font-size="34" font-weight="bold" text-anchor="middle" fill="#FFFFFF">CLICK</text>`;
+	} else if (cycle > 1) {
+		svg += `<text x="72" y="90" font-family="Arial" font-size="56" font-weight="bold" text-anchor="middle" fill="#9D9D9D">${cycle - position}</text>`;
+	} else {
+		svg += `<circle cx="72" cy="72" r="24" fill="none" stroke="#3A332A" stroke-width="6"/>`;
+	}
+
+	if (cycle > 1 && cycle <= MAX_DOTS) {
+		const spacing = 120 / cycle;
+		for (let dot = 0; dot < cycle; dot++) {
+			const cx = 12 + spacing * (dot + 0.5);
+			svg += `<circle cx="${cx.toFixed(1)}" cy="124" r="5" fill="${dot === position ? '#FFFFFF' : '#3A332A'}"/>`;
+		}
+	}
+
+	if (!connected) {
+		svg += createNoSignalOverlay();
+	}
+
+	svg += `</svg>`;
+
+	const svgBase64 = Buffer.from(svg).toString('base64');
+	return `data:image/svg+xml;base64,${svgBase64}`;
+}
+
+/**
+ * Gets a frame from the cache, rendering it the first time it is needed
+ */
+function getFrame(cycle: number, position: number, highlighted: boolean, connected: boolean): string {
+	// Disconnected frames are cached by label, which turns to "NO PORT" if the server fails to start
+	const key = `${cycle}:${position}:${highlighted}:${connected ? 'connected' : getNoSignalLabel()}`;
+	let frame = frameCache.get(key);
+	if (!frame) {
+		frame = createFrame(cycle, position, highlighted, connected);
+		frameCache.set(key, frame);
+	}
+	return frame;
+}
+
+/**
+ * Gets the length of a button's cycle in ticks and where a tick falls in it; position 0 is the click tick
+ */
+function getCyclePosition(settings: TickMetronomeSettings, tick: number): { cycle: number; position: number } {
+	let cycle = 1;
+	let offset = 0;
+
+	if (settings.pattern === 'everyN') {
+		cycle = parseInt(settings.ticks || '', 10) || 1;
+	} else if (settings.pattern === 'attack') {
+		const attack = getState(settings.client).attack;
+		cycle = attack?.speed || DEFAULT_ATTACK_SPEED;
+		offset = attack?.lastTick ?? 0;
+	}
+
+	cycle = Math.max(1, Math.round(cycle));
+	return { cycle, position: (((tick - offset) % cycle) + cycle) % cycle };
+}
+
+/**
+ * Sends a frame to a button unless it is already showing
+ */
+function showFrame(id: string, buttonData: { action: any; settings: TickMetronomeSettings }, frame: string): void {
+	if (lastImages.get(id) === frame) return;
+	lastImages.set(id, frame);
+	buttonData.action.setImage(frame).catch((error: unknown) => {
+		console.log(`[TickMetronome] Error updating button ${id}:`, error);
+	});
+}
+
+/**
+ * Draws a button at its last known tick without a highlight
+ */
+function showIdleFrame(id: string, buttonData: { action: any; settings: TickMetronomeSettings }): void {
+	const { cycle, position } = getCyclePosition(buttonData.settings, lastTicks.get(id) ?? 0);
+	showFrame(id, buttonData, getFrame(cycle, lastTicks.has(id) ? position : 0, false, isConnected(buttonData.settings.client)));
+}
+
+/**
+ * Tick listener: lights up buttons on their click tick and advances the rest
+ */
+function onTick(tick: number, clientId: string): void {
+	const startedAt = performance.now();
+
+	for (const [id, buttonData] of activeButtons) {
+		if (!matchesClient(buttonData.settings.client, clientId)) continue;
+
+		lastTicks.set(id, tick);
+		const { cycle, position } = getCyclePosition(buttonData.settings, tick);
+		const highlighted = position === 0;
+		showFrame(id, buttonData, getFrame(cycle, position, highlighted, true));
+
+		const pending = pulseTimers.get(id);
+		if (pending) {
+			clearTimeout(pending);
+			pulseTimers.delete(id);
+		}
+		if (highlighted) {
+			pulseTimers.set(id, setTimeout(() => {
+				pulseTimers.delete(id);
+				showIdleFrame(id, buttonData);
+			}, PULSE_MS));
+		}
+	}
+
+	recordRenderTiming('TickMetronome', performance.now() - startedAt);
+}
+
+/**
+ * State slices this action renders from, besides ticks
+ */
+const STATE_SELECTORS = ['attack'];
+
+/**
+ * State listener function, redrawing for a new weapon speed or a change in connection
+ */
+function onStateUpdate(_state: RuneLiteState, clientId?: string): void {
+	for (const [id, buttonData] of activeButtons) {
+		if (matchesClient(buttonData.settings.client, clientId) && !pulseTimers.has(id)) {
+			showIdleFrame(id, buttonData);
+		}
+	}
+}
+
+/**
+ * Tick Metronome action
+ */
+@action({ UUID: "com.catagris.runelite.tickmetronome" })
+export class TickMetronome extends SingletonAction<TickMetronomeSettings> {
+	override async onWillAppear(ev: WillAppearEvent<TickMetronomeSettings>): Promise<void> {
+		const settings = ev.payload.settings;
+
+		if (!settings.pattern) {
+			settings.pattern = 'every';
+			settings.ticks = '2';
+			await ev.action.setSettings(settings);
+		}
+
+		// Register listeners if first button
+		if (activeButtons.size === 0) {
+			addTickListener(onTick);
+			addStateListener(onStateUpdate, STATE_SELECTORS);
+		}
+
+		const buttonData = { action: ev.action, settings: settings };
+		activeButtons.set(ev.action.id, buttonData);
+
+		showIdleFrame(ev.action.id, buttonData);
+	}
+
+	override async onWillDisappear(ev: WillDisappearEvent<TickMetronomeSettings>): Promise<void> {
+		activeButtons.delete(ev.action.id);
+		lastImages.delete(ev.action.id);
+		lastTicks.delete(ev.action.id);
+
+		const pending = pulseTimers.get(ev.action.id);
+		if (pending) {
+			clearTimeout(pending);
+			pulseTimers.delete(ev.action.id);
+		}
+
+		if (activeButtons.size === 0) {
+			removeTickListener(onTick);
+			removeStateListener(onStateUpdate);
+		}
+	}
+
+	override async onDidReceiveSettings(ev: DidReceiveSettingsEvent<TickMetronomeSettings>): Promise<void> {
+		const settings = ev.payload.settings;
+
+		const buttonData = activeButtons.get(ev.action.id);
+		if (buttonData) {
+			buttonData.settings = settings;
+			showIdleFrame(ev.action.id, buttonData);
+		}
+	}
+}
+
+type TickMetronomeSettings = {
+	/** Every tick, every N ticks, or the equipped weapon's attack cycle */
+	pattern?: 'every' | 'everyN' | 'attack';
+	/** Cycle length for the "everyN" pattern */
+	ticks?: string;
+	client?: string;
+};
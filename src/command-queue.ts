@@ -0,0 +1,211 @@
+/**
+ * Structured commands the Stream Deck can send to the RuneLite plugin
+ */
+export type RuneLiteCommand =
+	| { type: 'openTab'; tab: string }
+	| { type: 'toggleWorldMap' }
+	| { type: 'toggleRun' }
+	| { type: 'toggleSpecialAttack' }
+	| { type: 'toggleQuickPrayers' }
+	| { type: 'setPrayer'; prayer: string; active: boolean; deactivate?: string[] };
+
+/**
+ * Delivery status of a queued command
+ */
+export type CommandStatus = 'pending' | 'delivered' | 'acknowledged' | 'failed' | 'timeout';
+
+/**
+ * Final outcome of a command, reported back to the action that sent it
+ */
+export type CommandResult = {
+	id: string;
+	status: CommandStatus;
+	error?: string;
+};
+
+/**
+ * Command as sent over the wire to RuneLite
+ */
+export type WireCommand = RuneLiteCommand & { id: string };
+
+/**
+ * A command waiting to be delivered or acknowledged
+ */
+type QueuedCommand = {
+	id: string;
+	command: RuneLiteCommand;
+	/** Client the command is meant for; any client may take it if unset */
+	clientId?: string;
+	status: CommandStatus;
+	timer: NodeJS.Timeout;
+	resolve: (result: CommandResult) => void;
+};
+
+/**
+ * Default time to wait for RuneLite to acknowledge a command
+ */
+const COMMAND_TIMEOUT_MS = 5000;
+
+/**
+ * How long after its last poll RuneLite is still considered connected
+ */
+const CONSUMER_GRACE_MS = 5000;
+
+/**
+ * Commands not yet picked up by RuneLite, in order
+ */
+const pendingCommands: QueuedCommand[] = [];
+
+/**
+ * All unresolved commands by id
+ */
+const unresolvedCommands = new Map<string, QueuedCommand>();
+
+/**
+ * Long-poll requests waiting for a command to arrive, with the client each one polls for
+ */
+const waiters = new Map<(commands: WireCommand[]) => void, string | undefined>();
+
+/**
+ * Time of the last poll per client; polls without a client id are stored under ''
+ */
+const lastPollAt = new Map<string, number>();
+
+/**
+ * Counter used to build command ids
+ */
+let nextCommandId = 1;
+
+/**
+ * Resolves a command with its final status
+ */
+function finishCommand(entry: QueuedCommand, status: CommandStatus, error?: string): void {
+	clearTimeout(entry.timer);
+	unresolvedCommands.delete(entry.id);
+
+	const index = pendingCommands.indexOf(entry);
+	if (index !== -1) {
+		pendingCommands.splice(index, 1);
+	}
+
+	entry.status = status;
+	entry.resolve({ id: entry.id, status, error });
+}
+
+/**
+ * Returns true if a poll for pollClientId may take a command meant for commandClientId
+ */
+function canTake(pollClientId: string | undefined, commandClientId: string | undefined): boolean {
+	return pollClientId === undefined || commandClientId === undefined || pollClientId === commandClientId;
+}
+
+/**
+ * Removes the pending commands a client may take from the queue and marks them delivered
+ */
+function takePendingCommands(clientId: string | undefined): WireCommand[] {
+	const commands = pendingCommands.filter(entry => canTake(clientId, entry.clientId));
+	for (const entry of commands) {
+		pendingCommands.splice(pendingCommands.indexOf(entry), 1);
+		entry.status = 'delivered';
+	}
+	return commands.map(entry => ({ id: entry.id, ...entry.command }));
+}
+
+/**
+ * Hands pending commands to the oldest waiting long-poll request that may take them
+ */
+function wakeWaiter(commandClientId: string | undefined): void {
+	for (const [waiter, pollClientId] of waiters) {
+		if (canTake(pollClientId, commandClientId)) {
+			waiters.delete(waiter);
+			waiter(takePendingCommands(pollClientId));
+			return;
+		}
+	}
+}
+
+/**
+ * Queues a command for a RuneLite client (or any client) and resolves once it is acknowledged, fails or times out
+ */
+export function sendCommand(command: RuneLiteCommand, clientId?: string, timeoutMs: number = COMMAND_TIMEOUT_MS): Promise<CommandResult> {
+	return new Promise(resolve => {
+		const id = String(nextCommandId++);
+		const entry: QueuedCommand = {
+			id,
+			command,
+			clientId,
+			status: 'pending',
+			timer: setTimeout(() => finishCommand(entry, 'timeout', 'No acknowledgement from RuneLite'), timeoutMs),
+			resolve,
+		};
+
+		pendingCommands.push(entry);
+		unresolvedCommands.set(id, entry);
+		console.log(`[CommandQueue] Queued command ${id} for ${clientId || 'any client'}:`, JSON.stringify(command));
+		wakeWaiter(clientId);
+	});
+}
+
+/**
+ * Waits up to timeoutMs for commands a client may take, calling onCommands exactly once unless cancelled.
+ * Returns a function that cancels the wait.
+ */
+export function waitForCommands(clientId: string | undefined, timeoutMs: number, onCommands: (commands: WireCommand[]) => void): () => void {
+	const pollKey = clientId || '';
+	lastPollAt.set(pollKey, Date.now());
+
+	if (pendingCommands.some(entry => canTake(clientId, entry.clientId)) || timeoutMs <= 0) {
+		onCommands(takePendingCommands(clientId));
+		return () => {};
+	}
+
+	const waiter = (commands: WireCommand[]) => {
+		clearTimeout(timer);
+		lastPollAt.set(pollKey, Date.now());
+		onCommands(commands);
+	};
+	const timer = setTimeout(() => {
+		waiters.delete(waiter);
+		lastPollAt.set(pollKey, Date.now());
+		onCommands([]);
+	}, timeoutMs);
+
+	waiters.set(waiter, clientId);
+
+	return () => {
+		clearTimeout(timer);
+		waiters.delete(waiter);
+	};
+}
+
+/**
+ * Records RuneLite's acknowledgement of a command. Returns false if the command is unknown or already resolved.
+ */
+export function acknowledgeCommand(id: string, success: boolean, error?: string): boolean {
+	const entry = unresolvedCommands.get(id);
+	if (!entry) {
+		return false;
+	}
+
+	finishCommand(entry, success ? 'acknowledged' : 'failed', error);
+	return true;
+}
+
+/**
+ * Returns true if a RuneLite client that can take commands for clientId is currently polling
+ */
+export function isCommandConsumerConnected(clientId?: string): boolean {
+	for (const pollClientId of waiters.values()) {
+		if (canTake(pollClientId, clientId)) {
+			return true;
+		}
+	}
+
+	for (const [pollKey, polledAt] of lastPollAt) {
+		if (canTake(pollKey || undefined, clientId) && Date.now() - polledAt < CONSUMER_GRACE_MS) {
+			return true;
+		}
+	}
+
+	return false;
+}
@@ -0,0 +1,262 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getState, addStateListener, removeStateListener, isConnected, matchesClient, RuneLiteState } from './state-server';
+import { getNoSignalLabel } from './no-signal';
+import { recordRenderTiming } from './metrics';
+import { RuneLiteCommand } from './command-queue';
+import { isTogglePending, sendToggle } from './pending-toggles';
+
+/**
+ * Stats a Stream Deck+ dial can show, in the order rotation cycles through them
+ */
+export const DIAL_STATS = ['health', 'prayer', 'run', 'specialAttack'] as const;
+
+export type DialStat = typeof DIAL_STATS[number];
+
+/**
+ * Settings a dial uses, shared with the meter action it was placed as
+ */
+export type DialSettings = {
+	/** Stat the dial is showing; defaults to the meter's own stat */
+	dialStat?: DialStat;
+	pressToToggle?: boolean;
+	client?: string;
+};
+
+/**
+ * What the touch strip shows for one stat
+ */
+type DialReading = {
+	title: string;
+	value: string;
+	/** Bar fill, 0-100 */
+	percent: number;
+	color: string;
+	/** On/off state a press toggles, for stats that have one */
+	enabled?: boolean;
+};
+
+/**
+ * Map to store dial instances by context
+ */
+const activeDials = new Map<string, { action: any; settings: DialSettings; defaultStat: DialStat }>();
+
+/**
+ * Last feedback sent to each dial to avoid unnecessary updates
+ */
+const lastFeedback = new Map<string, string>();
+
+/**
+ * Orb icon shown on the touch strip for each stat
+ */
+const STAT_ICONS: { [stat in DialStat]: string } = {
+	health: 'health-meter',
+	prayer: 'prayer-meter',
+	run: 'run-meter',
+	specialAttack: 'special-attack-meter',
+};
+
+/**
+ * Command a dial press sends for each stat that can be toggled
+ */
+const STAT_COMMANDS: { [stat in DialStat]?: RuneLiteCommand } = {
+	prayer: { type: 'toggleQuickPrayers' },
+	run: { type: 'toggleRun' },
+	specialAttack: { type: 'toggleSpecialAttack' },
+};
+
+/**
+ * Cached icons as base64 data URI
+ */
+const cachedIcons = new Map<DialStat, string>();
+
+/**
+ * Loads and caches a stat's icon as base64
+ */
+function loadIcon(stat: DialStat): string {
+	const cached = cachedIcons.get(stat);
+	if (cached) return cached;
+
+	try {
+		const imgPath = path.join(process.cwd(), 'imgs', 'actions', STAT_ICONS[stat], 'icon.png');
+		const dataUri = `data:image/png;base64,${fs.readFileSync(imgPath).toString('base64')}`;
+		cachedIcons.set(stat, dataUri);
+		return dataUri;
+	} catch (error) {
+		console.log('[DialMeters] Error loading icon:', stat, error);
+		return '';
+	}
+}
+
+/**
+ * Health bar colors by status effect
+ */
+const HEALTH_COLORS: { [status: string]: string } = {
+	poisoned: '#19DA00',
+	venomed: '#24573D',
+	diseased: '#C5BA73',
+	poisoned_diseased: '#19DA00',
+	venomed_diseased: '#24573D',
+};
+
+/**
+ * Reads a stat from state for the touch strip. While a toggle is pending, the color shows the state it will change to.
+ */
+function readStat(stat: DialStat, data: RuneLiteState, pending: boolean = false): DialReading {
+	switch (stat) {
+		case 'health': {
+			const current = data.stats?.hp?.current || 0;
+			const max = data.stats?.hp?.max || 100;
+			const status = data.stats?.hp?.status;
+			return { title: 'Hitpoints', value: `${current}/${max}`, percent: max > 0 ? current / max * 100 : 0, color: (status && HEALTH_COLORS[status]) || '#B00905' };
+		}
+		case 'prayer': {
+			const current = data.stats?.prayer?.current || 0;
+			const max = data.stats?.prayer?.max || 1;
+			const enabled = data.quickPrayersEnabled ?? ((data.activePrayers && data.activePrayers.length > 0) || false);
+			return { title: 'Prayer', value: `${current}/${max}`, percent: max > 0 ? current / max * 100 : 0, color: enabled !== pending ? '#3FD0FF' : '#1F6F9F', enabled };
+		}
+		case 'run': {
+			const energy = data.stats?.runEnergy || 0;
+			const enabled = data.stats?.runEnabled || false;
+			return { title: 'Run Energy', value: `${Math.floor(energy / 100)}%`, percent: energy / 100, color: enabled !== pending ? '#E0C020' : '#7A6A1A', enabled };
+		}
+		case 'specialAttack': {
+			const special = data.stats?.specialAttack || 0;
+			const enabled = data.stats?.specialAttackEnabled || false;
+			const color = enabled !== pending ? '#FFD700' : data.stats?.specialAttackAvailable ? '#2EB82E' : '#6E6E6E';
+			return { title: 'Special Attack', value: `${special}%`, percent: special, color, enabled };
+		}
+	}
+}
+
+/**
+ * Gets the stat a dial is showing
+ */
+function getDialStat(dial: { settings: DialSettings; defaultStat: DialStat }): DialStat {
+	return dial.settings.dialStat && DIAL_STATS.includes(dial.settings.dialStat) ? dial.settings.dialStat : dial.defaultStat;
+}
+
+/**
+ * State slices dials render from
+ */
+const STATE_SELECTORS = ['stats.hp', 'stats.prayer', 'activePrayers', 'quickPrayersEnabled', 'stats.runEnergy', 'stats.runEnabled', 'stats.specialAttack', 'stats.specialAttackEnabled', 'stats.specialAttackAvailable'];
+
+/**
+ * State listener function
+ */
+function onStateUpdate(_state: RuneLiteState, clientId?: string): void {
+	updateDials(clientId);
+}
+
+/**
+ * Starts showing a meter on a dial
+ */
+export function addDial(action: any, settings: DialSettings, defaultStat: DialStat): void {
+	// Register listener if first dial
+	if (activeDials.size === 0) {
+		addStateListener(onStateUpdate, STATE_SELECTORS);
+	}
+
+	activeDials.set(action.id, { action, settings, defaultStat });
+	updateDials();
+}
+
+/**
+ * Stops showing a meter on a dial; does nothing if the action is not a dial
+ */
+export function removeDial(id: string): void {
+	if (!activeDials.delete(id)) return;
+	lastFeedback.delete(id);
+
+	if (activeDials.size === 0) {
+		removeStateListener(onStateUpdate);
+	}
+}
+
+/**
+ * Applies new settings from the property inspector to a dial
+ */
+export function updateDialSettings(id: string, settings: DialSettings): void {
+	const dial = activeDials.get(id);
+	if (dial) {
+		dial.settings = settings;
+		updateDials();
+	}
+}
+
+/**
+ * Cycles the stat a dial shows, one stat per tick of rotation
+ */
+export async function rotateDial(id: string, ticks: number): Promise<void> {
+	const dial = activeDials.get(id);
+	if (!dial) return;
+
+	const index = DIAL_STATS.indexOf(getDialStat(dial));
+	const next = (((index + ticks) % DIAL_STATS.length) + DIAL_STATS.length) % DIAL_STATS.length;
+	dial.settings = { ...dial.settings, dialStat: DIAL_STATS[next] };
+
+	// Saved so the dial keeps its stat across restarts
+	await dial.action.setSettings(dial.settings);
+	await updateDials();
+}
+
+/**
+ * Runs the key press of the stat a dial shows, e.g. toggling run
+ */
+export async function pressDial(id: string): Promise<void> {
+	const dial = activeDials.get(id);
+	if (!dial || dial.settings.pressToToggle === false) return;
+
+	const stat = getDialStat(dial);
+	const command = STAT_COMMANDS[stat];
+	if (!command) return;
+
+	const reading = readStat(stat, getState(dial.settings.client));
+	await sendToggle(dial.action, command, dial.settings.client, reading.enabled || false, () => updateDials());
+}
+
+/**
+ * Updates the dials showing a client, or all dials if no client is given
+ */
+async function updateDials(clientId?: string): Promise<void> {
+	if (activeDials.size === 0) return;
+
+	const startedAt = performance.now();
+
+	await Promise.all(
+		Array.from(activeDials.entries())
+			.filter(([, dial]) => matchesClient(dial.settings.client, clientId))
+			.map(async ([id, dial]) => {
+				try {
+					const stat = getDialStat(dial);
+					const data = getState(dial.settings.client);
+					const pending = isTogglePending(id, readStat(stat, data).enabled || false);
+					const reading = readStat(stat, data, pending);
+					const title = pending ? `${reading.title} …` : reading.title;
+
+					const connected = isConnected(dial.settings.client);
+					const feedback = {
+						title,
+						icon: loadIcon(stat),
+						value: connected ? reading.value : getNoSignalLabel(),
+						indicator: {
+							value: connected ? Math.max(0, Math.min(100, Math.round(reading.percent))) : 0,
+							bar_fill_c: reading.color,
+						},
+					};
+
+					// Only update feedback if it changed
+					const key = JSON.stringify(feedback);
+					if (lastFeedback.get(id) !== key) {
+						await dial.action.setFeedback(feedback);
+						lastFeedback.set(id, key);
+					}
+				} catch (error) {
+					console.log(`[DialMeters] Error updating dial ${id}:`, error);
+				}
+			})
+	);
+
+	recordRenderTiming('DialMeters', performance.now() - startedAt);
+}
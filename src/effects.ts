@@ -0,0 +1,20 @@
+/**
+ * Effect icons by effect id, kept so senders only need to include each icon once
+ */
+const cachedIcons = new Map<string, string>();
+
+/**
+ * Stores an effect icon sent as a base64 PNG or data URI
+ */
+export function cacheEffectIcon(id: string, icon: string | undefined): void {
+	if (icon) {
+		cachedIcons.set(id, icon.startsWith('data:') ? icon : `data:image/png;base64,${icon}`);
+	}
+}
+
+/**
+ * Gets the icon for an effect id as a data URI, if one has been sent
+ */
+export function getEffectIcon(id: string): string | undefined {
+	return cachedIcons.get(id);
+}
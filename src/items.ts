@@ -0,0 +1,33 @@
+/**
+ * Item sprites by item id, kept so senders only need to include each icon once
+ */
+const cachedIcons = new Map<number, string>();
+
+/**
+ * Stores an item sprite sent as a base64 PNG or data URI
+ */
+export function cacheItemIcon(id: number, icon: string | undefined): void {
+	if (icon && id >= 0) {
+		cachedIcons.set(id, icon.startsWith('data:') ? icon : `data:image/png;base64,${icon}`);
+	}
+}
+
+/**
+ * Gets the sprite for an item id as a data URI, if one has been sent
+ */
+export function getItemIcon(id: number): string | undefined {
+	return id >= 0 ? cachedIcons.get(id) : undefined;
+}
+
+/**
+ * Formats a quantity the way OSRS draws stack sizes: yellow below 100K, white "K" below 10M, green "M" above
+ */
+export function formatQuantity(quantity: number): { text: string; color: string } {
+	if (quantity >= 10000000) {
+		return { text: `${Math.floor(quantity / 1000000)}M`, color: '#00FF80' };
+	}
+	if (quantity >= 100000) {
+		return { text: `${Math.floor(quantity / 1000)}K`, color: '#FFFFFF' };
+	}
+	return { text: `${quantity}`, color: '#FFFF00' };
+}
@@ -0,0 +1,121 @@
+import { recordImageUpdate } from './metrics';
+
+/**
+ * Shortest time between two images sent to the same key. Updates arriving faster are merged,
+ * so only the latest is drawn once the interval has passed.
+ */
+const FRAME_INTERVAL_MS = 50;
+
+/**
+ * What the renderer knows about one key
+ */
+type KeyRender = {
+	/** Input the key was last drawn from, or is waiting to be drawn from */
+	input: string | null;
+	/** Image last sent to the key */
+	image: string | null;
+	lastSentAt: number;
+	/** Latest image waiting for the frame interval to pass */
+	pending: { action: any; render: () => string } | null;
+	timer: NodeJS.Timeout | null;
+};
+
+/**
+ * Render state by action id
+ */
+const keys = new Map<string, KeyRender>();
+
+/**
+ * Builds and sends a key's waiting image, unless it is identical to the one the key already shows
+ */
+function flushKey(id: string): void {
+	const key = keys.get(id);
+	if (!key || !key.pending) return;
+
+	const { action, render } = key.pending;
+	key.pending = null;
+
+	let image: string;
+	try {
+		image = render();
+	} catch (error) {
+		console.log(`[KeyRenderer] Error rendering button ${id}:`, error);
+		key.input = null;
+		return;
+	}
+
+	if (image === key.image) {
+		recordImageUpdate('unchanged');
+		return;
+	}
+
+	key.image = image;
+	key.lastSentAt = Date.now();
+	recordImageUpdate('sent');
+	action.setImage(image).catch((error: unknown) => {
+		console.log(`[KeyRenderer] Error updating button ${id}:`, error);
+		// Draw again on the next update rather than assuming the key shows this image
+		key.image = null;
+		key.input = null;
+	});
+}
+
+/**
+ * Draws a key from the given input. Nothing is rendered if the input is the same as last time,
+ * and a key is sent at most one image per frame interval, the latest one.
+ * input must capture everything render draws from, e.g. as JSON.
+ */
+export function renderKey(action: any, input: string, render: () => string): void {
+	let key = keys.get(action.id);
+	if (!key) {
+		key = { input: null, image: null, lastSentAt: 0, pending: null, timer: null };
+		keys.set(action.id, key);
+	}
+
+	if (key.input === input) return;
+	key.input = input;
+
+	if (key.pending) {
+		recordImageUpdate('coalesced');
+	}
+	key.pending = { action, render };
+
+	// A scheduled flush picks up the latest image
+	if (key.timer) return;
+
+	const wait = key.lastSentAt + FRAME_INTERVAL_MS - Date.now();
+	if (wait <= 0) {
+		flushKey(action.id);
+		return;
+	}
+
+	const id = action.id;
+	key.timer = setTimeout(() => {
+		const current = keys.get(id);
+		if (current) {
+			current.timer = null;
+		}
+		flushKey(id);
+	}, wait);
+}
+
+/**
+ * Makes the next renderKey for a key draw even if its input is unchanged, e.g. after the images it uses changed
+ */
+export function invalidateKey(id: string): void {
+	const key = keys.get(id);
+	if (key) {
+		key.input = null;
+	}
+}
+
+/**
+ * Forgets a key that is no longer shown, dropping any image waiting to be sent
+ */
+export function forgetKey(id: string): void {
+	const key = keys.get(id);
+	if (key?.timer) {
+		clearTimeout(key.timer);
+	}
+	keys.delete(id);
+}
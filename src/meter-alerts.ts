@@ -0,0 +1,140 @@
+import { readImageFile } from './themes';
+
+/**
+ * Alert rule settings shared by the meter keys
+ */
+export type MeterAlertSettings = {
+	/** When the alert is active: below the threshold, at or above it, or never */
+	alertWhen?: 'off' | 'below' | 'atOrAbove';
+	alertThreshold?: string;
+	/** Whether the threshold is a percentage of the maximum or a number of points */
+	alertUnit?: 'percent' | 'points';
+	/** Flash the key red, draw a red border, or show an alert image */
+	alertStyle?: 'flash' | 'border' | 'image';
+	/** How fast the alert blinks, or steady to keep it on */
+	alertRate?: 'steady' | 'slow' | 'normal' | 'fast';
+	/** Image file shown by the "image" style */
+	alertImage?: string;
+};
+
+/**
+ * Blink interval for each rate
+ */
+const RATE_INTERVALS_MS: { [rate: string]: number } = {
+	slow: 1000,
+	normal: 500,
+	fast: 250,
+};
+
+/**
+ * Color of the built-in alert frames
+ */
+const ALERT_COLOR = '#FF3030';
+
+/**
+ * Blinking alerts by action id
+ */
+const activeAlerts = new Map<string, { rate: number; shown: boolean; timer: NodeJS.Timeout }>();
+
+/**
+ * Cached alert images as base64 data URI, by file path
+ */
+const cachedImages = new Map<string, string>();
+
+/**
+ * Returns true if a meter's value meets its alert rule
+ */
+export function isAlertTriggered(settings: MeterAlertSettings, current: number, max: number): boolean {
+	if (!settings.alertWhen || settings.alertWhen === 'off') {
+		return false;
+	}
+
+	const threshold = parseFloat(settings.alertThreshold || '');
+	if (isNaN(threshold)) {
+		return false;
+	}
+
+	const value = settings.alertUnit === 'points' ? current : (max > 0 ? current / max * 100 : 0);
+	return settings.alertWhen === 'below' ? value < threshold : value >= threshold;
+}
+
+/**
+ * Stops a key's alert from blinking
+ */
+export function clearAlert(actionId: string): void {
+	const alert = activeAlerts.get(actionId);
+	if (alert) {
+		clearInterval(alert.timer);
+		activeAlerts.delete(actionId);
+	}
+}
+
+/**
+ * Returns true if a key should draw its alert in this frame. While the alert is triggered at a blinking rate,
+ * render is called each time the alert turns on or off; the blinking stops once the alert is no longer triggered.
+ */
+export function isAlertShown(actionId: string, settings: MeterAlertSettings, triggered: boolean, render: () => void): boolean {
+	const rate = RATE_INTERVALS_MS[settings.alertRate || 'normal'] || 0;
+	if (!triggered || rate === 0) {
+		clearAlert(actionId);
+		return triggered;
+	}
+
+	const alert = activeAlerts.get(actionId);
+	if (alert && alert.rate === rate) {
+		return alert.shown;
+	}
+
+	clearAlert(actionId);
+	const entry = {
+		rate,
+		shown: true,
+		timer: setInterval(() => {
+			entry.shown = !entry.shown;
+			render();
+		}, rate),
+	};
+	activeAlerts.set(actionId, entry);
+	return true;
+}
+
+/**
+ * Loads and caches the alert image chosen in the property inspector
+ */
+function loadAlertImage(file: string): string {
+	const cached = cachedImages.get(file);
+	if (cached) return cached;
+
+	try {
+		const dataUri = readImageFile(file);
+		cachedImages.set(file, dataUri);
+		return dataUri;
+	} catch (error) {
+		console.log('[MeterAlerts] Error loading alert image:', file, error);
+		return '';
+	}
+}
+
+/**
+ * Creates the SVG fragment drawn over a meter while its alert is shown
+ */
+export function createAlertOverlay(settings: MeterAlertSettings): string {
+	switch (settings.alertStyle) {
+		case 'border':
+			return `<rect x="4" y="4" width="136" height="136" rx="8" fill="none" stroke="${ALERT_COLOR}" stroke-width="8"/>`;
+		case 'image': {
+			const imageData = settings.alertImage ? loadAlertImage(settings.alertImage) : '';
+			if (imageData) {
+				return `<image href="${imageData}" x="0" y="0" width="144" height="144"/>`;
+			}
+			// Without a chosen image, show a plain warning sign
+			let svg = `<rect width="144" height="144" fill="#3A0000"/>`;
+			svg += `<path d="M72,20 L128,120 L16,120 Z" fill="${ALERT_COLOR}" stroke="#000000" stroke-width="3" stroke-linejoin="round"/>`;
+			svg += `<text x="72" y="110" font-family="Arial" font-size="64" font-weight="bold" text-anchor="middle" fill="#FFFFFF">!</text>`;
+			return svg;
+		}
+		case 'flash':
+		default:
+			return `<rect width="144" height="144" fill="${ALERT_COLOR}" opacity="0.5"/>`;
+	}
+}
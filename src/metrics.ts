@@ -0,0 +1,62 @@
+/**
+ * Aggregated render timings for one action type
+ */
+export type RenderTiming = {
+	count: number;
+	totalMs: number;
+	maxMs: number;
+	lastMs: number;
+};
+
+/**
+ * Render timings keyed by action name
+ */
+const renderTimings = new Map<string, RenderTiming>();
+
+/**
+ * Records how long an action took to render all of its buttons
+ */
+export function recordRenderTiming(actionName: string, durationMs: number): void {
+	const timing = renderTimings.get(actionName) || { count: 0, totalMs: 0, maxMs: 0, lastMs: 0 };
+	timing.count++;
+	timing.totalMs += durationMs;
+	timing.maxMs = Math.max(timing.maxMs, durationMs);
+	timing.lastMs = durationMs;
+	renderTimings.set(actionName, timing);
+}
+
+/**
+ * Gets render timings for every action, including the average per render
+ */
+export function getRenderTimings(): { [actionName: string]: RenderTiming & { avgMs: number } } {
+	const result: { [actionName: string]: RenderTiming & { avgMs: number } } = {};
+	for (const [actionName, timing] of renderTimings) {
+		result[actionName] = { ...timing, avgMs: timing.count > 0 ? timing.totalMs / timing.count : 0 };
+	}
+	return result;
+}
+
+/**
+ * What happened to key images handed to the renderer: sent to the Stream Deck, dropped as identical
+ * to the key's current image, or replaced by a newer image before they were sent
+ */
+export type ImageUpdateOutcome = 'sent' | 'unchanged' | 'coalesced';
+
+/**
+ * Key image counts by outcome
+ */
+const imageUpdates: { [outcome in ImageUpdateOutcome]: number } = { sent: 0, unchanged: 0, coalesced: 0 };
+
+/**
+ * Counts a key image by what happened to it
+ */
+export function recordImageUpdate(outcome: ImageUpdateOutcome): void {
+	imageUpdates[outcome]++;
+}
+
+/**
+ * Gets key image counts by outcome
+ */
+export function getImageUpdateCounts(): { [outcome in ImageUpdateOutcome]: number } {
+	return { ...imageUpdates };
+}
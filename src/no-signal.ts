@@ -0,0 +1,21 @@
+import { getServerError } from './state-server';
+
+/**
+ * Gets the label shown while RuneLite is not sending state: "NO SIGNAL", or "NO PORT" if the server could not start
+ */
+export function getNoSignalLabel(): string {
+	return getServerError() ? 'NO PORT' : 'NO SIGNAL';
+}
+
+/**
+ * Creates the SVG fragment drawn over a key when RuneLite has stopped sending state.
+ * Dims whatever was drawn underneath and labels the key with the no-signal label.
+ */
+export function createNoSignalOverlay(): string {
+	const label = getNoSignalLabel();
+
+	let svg = `<rect width="144" height="144" fill="#000000" opacity="0.65"/>`;
+	svg += `<text x="72" y="72" font-family="Arial" font-size="22" font-weight="bold" text-anchor="middle" dominant-baseline="middle" stroke="#000000" stroke-width="3" fill="none">${label}</text>`;
+	svg += `<text x="72" y="72" font-family="Arial" font-size="22" font-weight="bold" text-anchor="middle" dominant-baseline="middle" fill="#9D9D9D">${label}</text>`;
+	return svg;
+}
@@ -0,0 +1,94 @@
+import { resolveClientId } from './state-server';
+import { sendCommand, isCommandConsumerConnected, RuneLiteCommand } from './command-queue';
+
+/**
+ * How long after RuneLite acknowledges a toggle the key waits for state confirming it before reverting
+ */
+const CONFIRM_TIMEOUT_MS = 2000;
+
+/**
+ * A toggle sent to RuneLite that state has not yet confirmed
+ */
+type PendingToggle = {
+	/** Value before the key was pressed */
+	from: boolean;
+	timer: NodeJS.Timeout | null;
+};
+
+/**
+ * Pending toggles by action id
+ */
+const pendingToggles = new Map<string, PendingToggle>();
+
+/**
+ * Forgets a pending toggle
+ */
+function clearPendingToggle(actionId: string): void {
+	const pending = pendingToggles.get(actionId);
+	if (pending?.timer) {
+		clearTimeout(pending.timer);
+	}
+	pendingToggles.delete(actionId);
+}
+
+/**
+ * Returns true while a key's toggle is unconfirmed, i.e. state still shows the value from before the press.
+ * Once state shows the new value the toggle is confirmed and forgotten.
+ */
+export function isTogglePending(actionId: string, current: boolean): boolean {
+	const pending = pendingToggles.get(actionId);
+	if (!pending) {
+		return false;
+	}
+	if (current !== pending.from) {
+		clearPendingToggle(actionId);
+		return false;
+	}
+	return true;
+}
+
+/**
+ * Sends a toggle command for a key, showing it as pending until state confirms it or it fails.
+ * render is called whenever the pending frame should be drawn or removed.
+ */
+export async function sendToggle(action: any, command: RuneLiteCommand, client: string | undefined, current: boolean, render: () => void): Promise<void> {
+	const clientId = resolveClientId(client) ?? undefined;
+
+	// There is no keyboard shortcut for the orbs, so toggling needs the command channel
+	if (!isCommandConsumerConnected(clientId)) {
+		await action.showAlert();
+		return;
+	}
+
+	clearPendingToggle(action.id);
+	pendingToggles.set(action.id, { from: current, timer: null });
+	render();
+
+	const result = await sendCommand(command, clientId);
+	const pending = pendingToggles.get(action.id);
+	if (!pending) {
+		// State already confirmed the toggle
+		return;
+	}
+
+	if (result.status !== 'acknowledged') {
+		console.log(`[PendingToggles] ${command.type} command ${result.status}:`, result.error);
+		clearPendingToggle(action.id);
+		render();
+		await action.showAlert();
+		return;
+	}
+
+	// Revert if no state update confirms the change, e.g. run could not be enabled without energy
+	pending.timer = setTimeout(() => {
+		clearPendingToggle(action.id);
+		render();
+	}, CONFIRM_TIMEOUT_MS);
+}
+
+/**
+ * Creates the SVG fragment drawn over an orb while its toggle is pending
+ */
+export function createPendingOverlay(): string {
+	return `<circle cx="72" cy="72" r="66" fill="none" stroke="#FFFFFF" stroke-width="4" stroke-dasharray="12 8" opacity="0.8"/>`;
+}
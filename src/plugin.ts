@@ -7,16 +7,83 @@ import { PrayerMeter } from "./actions/prayer-meter";
 import { SpecialAttackMeter } from "./actions/special-attack-meter";
 import { MapButton } from "./actions/map-button";
 import { PrayerButton } from "./actions/prayer-button";
-import { startServer } from "./state-server";
+import { InventorySlot } from "./actions/inventory-slot";
+import { SkillMeter } from "./actions/skill-meter";
+import { BoostMeter } from "./actions/boost-meter";
+import { EquipmentSlot } from "./actions/equipment-slot";
+import { OpponentHealth } from "./actions/opponent-health";
+import { EffectTimer } from "./actions/effect-timer";
+import { TickMetronome } from "./actions/tick-metronome";
+import { startServer, stopServer, setServerOptions, getClients, ACTIVE_CLIENT, ServerOptions } from "./state-server";
+import { setThemeOptions, getThemes, DEFAULT_THEME, GLOBAL_THEME } from "./themes";
 
-console.log("[Plugin] Starting RuneLite Stream Deck Plugin");
+/**
+ * Plugin-wide settings shared by every action
+ */
+type GlobalSettings = {
+	port?: string;
+	authToken?: string;
+	allowedOrigins?: string;
+	staleTimeoutSeconds?: string;
+	/** Folder holding one subfolder per theme */
+	themesDirectory?: string;
+	/** Theme used by keys that do not choose their own */
+	theme?: string;
+};
+
+/**
+ * Port used when none is configured
+ */
+const DEFAULT_PORT = 8085;
+
+/**
+ * Port the server was last started on, or null before startup
+ */
+let configuredPort: number | null = null;
+
+/**
+ * Gets the configured server port, falling back to the default if unset or invalid
+ */
+function getConfiguredPort(settings: GlobalSettings): number {
+	const port = Number(settings.port);
+	return Number.isInteger(port) && port > 0 && port < 65536 ? port : DEFAULT_PORT;
+}
+
+/**
+ * Converts global settings into state server options
+ */
+function toServerOptions(settings: GlobalSettings): ServerOptions {
+	return {
+		authToken: settings.authToken?.trim() || undefined,
+		allowedOrigins: (settings.allowedOrigins || '')
+			.split(',')
+			.map(origin => origin.trim())
+			.filter(origin => origin.length > 0),
+		staleTimeoutMs: Number(settings.staleTimeoutSeconds) > 0 ? Number(settings.staleTimeoutSeconds) * 1000 : undefined,
+	};
+}
+
+/**
+ * Builds the "Theme" dropdown items, with an entry that defers to the theme for all keys when picking a key's own theme
+ */
+function getThemeItems(perKey: boolean, selected: unknown): { label: string; value: string }[] {
+	const items = perKey ? [{ label: "Same as all keys", value: GLOBAL_THEME }] : [];
+	items.push({ label: "Built-in", value: DEFAULT_THEME });
+	for (const theme of getThemes()) {
+		items.push({ label: theme.name, value: theme.id });
+	}
+
+	// Keep a previously chosen theme selectable if its folder is gone
+	if (typeof selected === "string" && selected && !items.some(item => item.value === selected)) {
+		items.push({ label: `${selected} - missing`, value: selected });
+	}
+	return items;
+}
 
-// Start the HTTP server to receive state from RuneLite
-startServer(8085);
-console.log("[Plugin] State server started on port 8085");
+console.log("[Plugin] Starting RuneLite Stream Deck Plugin");
 
-// We can enable "trace" logging so that all messages between the Stream Deck, and the plugin are recorded. When storing sensitive information
-streamDeck.logger.setLevel("trace");
+// Messages between the Stream Deck and the plugin carry the global settings, including the auth token, so they are not traced
+streamDeck.logger.setLevel("info");
 
 console.log("[Plugin] Registering actions");
 // Register actions
@@ -35,11 +102,79 @@ try {
 	console.log("[Plugin] MapButton registered");
 	streamDeck.actions.registerAction(new PrayerButton());
 	console.log("[Plugin] PrayerButton registered");
+	streamDeck.actions.registerAction(new InventorySlot());
+	console.log("[Plugin] InventorySlot registered");
+	streamDeck.actions.registerAction(new SkillMeter());
+	console.log("[Plugin] SkillMeter registered");
+	streamDeck.actions.registerAction(new BoostMeter());
+	console.log("[Plugin] BoostMeter registered");
+	streamDeck.actions.registerAction(new EquipmentSlot());
+	console.log("[Plugin] EquipmentSlot registered");
+	streamDeck.actions.registerAction(new OpponentHealth());
+	console.log("[Plugin] OpponentHealth registered");
+	streamDeck.actions.registerAction(new EffectTimer());
+	console.log("[Plugin] EffectTimer registered");
+	streamDeck.actions.registerAction(new TickMetronome());
+	console.log("[Plugin] TickMetronome registered");
 } catch (error) {
 	console.error("[Plugin] Error registering actions:", error);
 }
 
+// Apply connection settings whenever they change in a property inspector
+streamDeck.settings.onDidReceiveGlobalSettings<GlobalSettings>((ev) => {
+	setServerOptions(toServerOptions(ev.settings));
+	setThemeOptions({ directory: ev.settings.themesDirectory, theme: ev.settings.theme });
+
+	// Move the server when the port is changed after startup
+	const port = getConfiguredPort(ev.settings);
+	if (configuredPort !== null && port !== configuredPort) {
+		console.log(`[Plugin] Port changed to ${port}, restarting state server`);
+		configuredPort = port;
+		stopServer();
+		startServer(port, toServerOptions(ev.settings));
+	}
+});
+
+// Supply the "Client" dropdown in property inspectors with the RuneLite clients seen so far, and the "Theme" dropdowns with the installed themes
+streamDeck.ui.onSendToPlugin<{ event?: string }>(async (ev) => {
+	if (ev.payload.event === "getThemes") {
+		const selected = (await streamDeck.settings.getGlobalSettings<GlobalSettings>()).theme;
+		await streamDeck.ui.sendToPropertyInspector({ event: "getThemes", items: getThemeItems(false, selected) });
+		return;
+	}
+	if (ev.payload.event === "getKeyThemes") {
+		const selected = (await ev.action.getSettings()).theme;
+		await streamDeck.ui.sendToPropertyInspector({ event: "getKeyThemes", items: getThemeItems(true, selected) });
+		return;
+	}
+	if (ev.payload.event !== "getClients") {
+		return;
+	}
+
+	const items = [{ label: "Active client", value: ACTIVE_CLIENT }];
+	for (const client of getClients()) {
+		const name = client.playerName && client.playerName !== client.id ? `${client.playerName} (${client.id})` : client.id;
+		items.push({ label: client.connected ? name : `${name} - offline`, value: client.id });
+	}
+
+	// Keep a previously chosen client selectable even if it has not connected since the plugin started
+	const selected = (await ev.action.getSettings()).client;
+	if (typeof selected === "string" && !items.some(item => item.value === selected)) {
+		items.push({ label: `${selected} - offline`, value: selected });
+	}
+
+	await streamDeck.ui.sendToPropertyInspector({ event: "getClients", items });
+});
+
 // Finally, connect to the Stream Deck.
 console.log("[Plugin] Connecting to Stream Deck");
-streamDeck.connect();
-console.log("[Plugin] Connected to Stream Deck");
+streamDeck.connect().then(async () => {
+	console.log("[Plugin] Connected to Stream Deck");
+
+	// Start the HTTP server to receive state from RuneLite once the security settings are known
+	const globalSettings = await streamDeck.settings.getGlobalSettings<GlobalSettings>();
+	setThemeOptions({ directory: globalSettings.themesDirectory, theme: globalSettings.theme });
+	configuredPort = getConfiguredPort(globalSettings);
+	startServer(configuredPort, toServerOptions(globalSettings));
+	console.log(`[Plugin] State server starting on port ${configuredPort}`);
+});
@@ -0,0 +1,140 @@
+import { RuneLiteState } from './state-server';
+
+/**
+ * Drain effect of each prayer. Every tick the effects of the active prayers are added up,
+ * and a prayer point is lost each time the total reaches the drain resistance.
+ */
+const PRAYER_DRAIN_EFFECTS: { [key: string]: number } = {
+	thick_skin: 1,
+	burst_of_strength: 1,
+	clarity_of_thought: 1,
+	sharp_eye: 1,
+	mystic_will: 1,
+	rock_skin: 6,
+	superhuman_strength: 6,
+	improved_reflexes: 6,
+	rapid_restore: 1,
+	rapid_heal: 2,
+	protect_item: 2,
+	hawk_eye: 6,
+	mystic_lore: 6,
+	steel_skin: 12,
+	ultimate_strength: 12,
+	incredible_reflexes: 12,
+	protect_from_magic: 12,
+	protect_from_missiles: 12,
+	protect_from_melee: 12,
+	eagle_eye: 12,
+	mystic_might: 12,
+	retribution: 3,
+	redemption: 6,
+	smite: 18,
+	preserve: 2,
+	chivalry: 24,
+	deadeye: 12,
+	mystic_vigour: 12,
+	piety: 24,
+	rigour: 24,
+	augury: 24,
+};
+
+/**
+ * Length of a game tick
+ */
+const TICK_SECONDS = 0.6;
+
+/**
+ * Point drops kept per client to measure the drain rate, enough to smooth over tick rounding
+ */
+const MAX_DROPS = 10;
+
+/**
+ * Point drops seen for each client while the same prayers stay active
+ */
+const drainTrackers = new Map<string, { prayers: string; points: number; drops: { points: number; at: number }[] }>();
+
+/**
+ * Drain rate and time left for a client's active prayers
+ */
+export type PrayerDrain = {
+	/** Seconds it takes to drain one prayer point */
+	secondsPerPoint: number;
+	/** Seconds until prayer runs out */
+	secondsRemaining: number;
+	/** Whether the rate was measured from point drops rather than estimated from the prayers' drain effects */
+	measured: boolean;
+};
+
+/**
+ * Estimates the seconds per point from the active prayers' drain effects and the prayer bonus
+ */
+function estimateSecondsPerPoint(prayers: string[], bonus: number): number | null {
+	const effect = prayers.reduce((total, prayer) => total + (PRAYER_DRAIN_EFFECTS[prayer] || 0), 0);
+	if (effect <= 0) {
+		return null;
+	}
+	const resistance = 60 + 2 * Math.max(0, bonus);
+	return resistance / effect * TICK_SECONDS;
+}
+
+/**
+ * Records a client's prayer points. Drops are only measured while the same prayers stay active,
+ * and a restore or a change of prayers starts the measurement over.
+ */
+function trackDrain(clientKey: string, prayers: string[], points: number, now: number): { points: number; at: number }[] {
+	const prayerKey = [...prayers].sort().join(',');
+	let tracker = drainTrackers.get(clientKey);
+
+	if (!tracker || tracker.prayers !== prayerKey || points > tracker.points) {
+		tracker = { prayers: prayerKey, points, drops: [] };
+		drainTrackers.set(clientKey, tracker);
+	} else if (points < tracker.points) {
+		tracker.points = points;
+		tracker.drops.push({ points, at: now });
+		if (tracker.drops.length > MAX_DROPS) {
+			tracker.drops.shift();
+		}
+	}
+
+	return tracker.drops;
+}
+
+/**
+ * Gets how fast a client's prayer is draining and how long it will last, or null if no draining prayer is active.
+ * Call on every state update so point drops are seen as they happen.
+ */
+export function getPrayerDrain(clientKey: string, data: RuneLiteState, now: number = Date.now()): PrayerDrain | null {
+	const prayers = data.activePrayers || [];
+	const points = data.stats?.prayer?.current || 0;
+	const drops = trackDrain(clientKey, prayers, points, now);
+
+	if (prayers.length === 0) {
+		return null;
+	}
+
+	// The time between the first and last drop covers whole points, unlike the time since the prayers were turned on
+	let secondsPerPoint: number | null = null;
+	let measured = false;
+	if (drops.length >= 2) {
+		const first = drops[0];
+		const last = drops[drops.length - 1];
+		secondsPerPoint = (last.at - first.at) / 1000 / (first.points - last.points);
+		measured = true;
+	} else {
+		secondsPerPoint = estimateSecondsPerPoint(prayers, data.stats?.prayer?.bonus || 0);
+	}
+
+	if (secondsPerPoint === null || secondsPerPoint <= 0) {
+		return null;
+	}
+
+	// Count down the current point from when it was reached
+	const lastDrop = drops[drops.length - 1];
+	const intoPoint = lastDrop ? Math.min(secondsPerPoint, (now - lastDrop.at) / 1000) : 0;
+
+	return {
+		secondsPerPoint,
+		secondsRemaining: Math.max(0, points * secondsPerPoint - intoPoint),
+		measured,
+	};
+}
@@ -0,0 +1,47 @@
+import { loadThemeImage } from './themes';
+
+/**
+ * Maps prayer JSON keys to their icon filenames
+ */
+const PRAYER_ICONS: { [key: string]: string } = {
+	thick_skin: 'Thick_Skin.png',
+	burst_of_strength: 'Burst_of_Strength.png',
+	clarity_of_thought: 'Clarity_of_Thought.png',
+	sharp_eye: 'Sharp_Eye.png',
+	mystic_will: 'Mystic_Will.png',
+	rock_skin: 'Rock_Skin.png',
+	superhuman_strength: 'Superhuman_Strength.png',
+	improved_reflexes: 'Improved_Reflexes.png',
+	rapid_restore: 'Rapid_Restore.png',
+	rapid_heal: 'Rapid_Heal.png',
+	protect_item: 'Protect_Item.png',
+	hawk_eye: 'Hawk_Eye.png',
+	mystic_lore: 'Mystic_Lore.png',
+	steel_skin: 'Steel_Skin.png',
+	ultimate_strength: 'Ultimate_Strength.png',
+	incredible_reflexes: 'Incredible_Reflexes.png',
+	protect_from_magic: 'Protect_from_Magic.png',
+	protect_from_missiles: 'Protect_from_Missiles.png',
+	protect_from_melee: 'Protect_from_Melee.png',
+	eagle_eye: 'Eagle_Eye.png',
+	mystic_might: 'Mystic_Might.png',
+	retribution: 'Retribution.png',
+	redemption: 'Redemption.png',
+	smite: 'Smite.png',
+	preserve: 'Preserve.png',
+	chivalry: 'Chivalry.png',
+	deadeye: 'Deadeye.png',
+	mystic_vigour: 'Mystic_Vigour.png',
+	piety: 'Piety.png',
+	rigour: 'Rigour.png',
+	augury: 'Augury.png',
+};
+
+/**
+ * Gets the icon of a prayer by its JSON key, or an empty string for an unknown prayer
+ */
+export function getPrayerIcon(prayer: string, theme?: string): string {
+	const key = prayer.toLowerCase();
+	const iconFile = PRAYER_ICONS[key];
+	return iconFile ? loadThemeImage(`prayer.icon.${key}`, `prayer-button/${iconFile}`, theme) : '';
+}
@@ -0,0 +1,334 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { RuneLiteState } from './state-server';
+
+/**
+ * One line of a recorded session file
+ */
+export type RecordedUpdate = {
+	/** Time the update was received, in milliseconds since the epoch */
+	t: number;
+	clientId: string;
+	state: RuneLiteState;
+};
+
+/**
+ * Snapshot of the replay for the control endpoints
+ */
+export type ReplayStatus = {
+	file: string;
+	playing: boolean;
+	speed: number;
+	loop: boolean;
+	positionMs: number;
+	durationMs: number;
+	index: number;
+	total: number;
+};
+
+/**
+ * Callback that applies a replayed update as if it had been received over HTTP
+ */
+type ApplyUpdate = (clientId: string, state: RuneLiteState) => void;
+
+/**
+ * Callback run when a session that does not loop is unloaded after its last update
+ */
+type FinishReplay = () => void;
+
+/**
+ * A loaded session and its playback position
+ */
+type ReplaySession = {
+	file: string;
+	updates: RecordedUpdate[];
+	/** Offset of each update from the first one, in milliseconds */
+	offsets: number[];
+	apply: ApplyUpdate;
+	onFinish: FinishReplay | null;
+	speed: number;
+	loop: boolean;
+	/** Index of the next update to apply */
+	index: number;
+	/** Playback position when playback last started or was paused */
+	basePositionMs: number;
+	/** Wall-clock time playback last started, or null while paused */
+	resumedAt: number | null;
+	timer: NodeJS.Timeout | null;
+};
+
+/**
+ * Directory holding the sample sessions shipped with the plugin
+ */
+const BUNDLED_SESSIONS_DIR = path.join(process.cwd(), 'sessions');
+
+/**
+ * Directory new recordings are written to
+ */
+export const RECORDINGS_DIR = path.join(os.homedir(), '.runelite', 'streamdeck-sessions');
+
+/**
+ * The session currently being replayed
+ */
+let session: ReplaySession | null = null;
+
+/**
+ * Returns true if a session file is given as a plain name, without a folder that could point outside the sessions folders
+ */
+export function isSessionName(file: string): boolean {
+	return file.length > 0 && file === path.basename(file) && !file.includes('\\') && file !== '.' && file !== '..';
+}
+
+/**
+ * Resolves a session name, looking in the bundled sessions, then the recordings.
+ * Returns null for anything but the plain name of a session in one of those folders.
+ */
+export function resolveSessionFile(file: string): string | null {
+	if (!isSessionName(file)) {
+		return null;
+	}
+
+	const fileName = file.endsWith('.jsonl') ? file : `${file}.jsonl`;
+	for (const dir of [BUNDLED_SESSIONS_DIR, RECORDINGS_DIR]) {
+		const candidate = path.join(dir, fileName);
+		if (fs.existsSync(candidate)) {
+			return candidate;
+		}
+	}
+	return null;
+}
+
+/**
+ * Lists the bundled sample sessions and saved recordings by name
+ */
+export function listSessions(): { bundled: string[]; recordings: string[] } {
+	const list = (dir: string) => {
+		try {
+			return fs.readdirSync(dir).filter(name => name.endsWith('.jsonl')).map(name => name.slice(0, -'.jsonl'.length));
+		} catch (error) {
+			return [];
+		}
+	};
+	return { bundled: list(BUNDLED_SESSIONS_DIR), recordings: list(RECORDINGS_DIR) };
+}
+
+/**
+ * Reads a session file, skipping blank or malformed lines
+ */
+function loadSession(file: string): RecordedUpdate[] {
+	const updates: RecordedUpdate[] = [];
+	const lines = fs.readFileSync(file, 'utf8').split('\n');
+
+	lines.forEach((line, index) => {
+		if (!line.trim()) {
+			return;
+		}
+		try {
+			const update = JSON.parse(line) as RecordedUpdate;
+			if (typeof update.t === 'number' && typeof update.clientId === 'string' && typeof update.state === 'object') {
+				updates.push(update);
+			} else {
+				console.log(`[SessionReplay] Skipping malformed line ${index + 1} in ${file}`);
+			}
+		} catch (error) {
+			console.log(`[SessionReplay] Skipping unparseable line ${index + 1} in ${file}`);
+		}
+	});
+
+	return updates.sort((a, b) => a.t - b.t);
+}
+
+/**
+ * Gets the current playback position of a session
+ */
+function getPosition(current: ReplaySession): number {
+	if (current.resumedAt === null) {
+		return current.basePositionMs;
+	}
+	return current.basePositionMs + (Date.now() - current.resumedAt) * current.speed;
+}
+
+/**
+ * Schedules the next update, or loops at the end of the session. A session that does not loop is unloaded
+ * once it finishes, so live updates are accepted again.
+ */
+function scheduleNext(current: ReplaySession): void {
+	if (current.timer) {
+		clearTimeout(current.timer);
+		current.timer = null;
+	}
+	if (current.resumedAt === null) {
+		return;
+	}
+
+	if (current.index >= current.updates.length) {
+		if (current.loop && current.updates.length > 0) {
+			current.index = 0;
+			current.basePositionMs = 0;
+			current.resumedAt = Date.now();
+		} else {
+			console.log(`[SessionReplay] Finished ${current.file}`);
+			if (session === current) {
+				session = null;
+			}
+			current.onFinish?.();
+			return;
+		}
+	}
+
+	const delay = Math.max(0, (current.offsets[current.index] - getPosition(current)) / current.speed);
+	current.timer = setTimeout(() => {
+		const update = current.updates[current.index];
+		current.index++;
+		current.apply(update.clientId, update.state);
+		scheduleNext(current);
+	}, delay);
+}
+
+/**
+ * Starts replaying a recorded session through the given apply callback
+ */
+export function startReplay(file: string, apply: ApplyUpdate, options: { speed?: number; loop?: boolean; onFinish?: FinishReplay } = {}): ReplayStatus {
+	stopReplay();
+
+	const resolved = resolveSessionFile(file);
+	if (!resolved) {
+		throw new Error(`No session named ${file}`);
+	}
+	const updates = loadSession(resolved);
+	if (updates.length === 0) {
+		throw new Error(`No updates found in ${resolved}`);
+	}
+
+	session = {
+		file: resolved,
+		updates,
+		offsets: updates.map(update => update.t - updates[0].t),
+		apply,
+		onFinish: options.onFinish || null,
+		speed: options.speed && options.speed > 0 ? options.speed : 1,
+		loop: options.loop === true,
+		index: 0,
+		basePositionMs: 0,
+		resumedAt: Date.now(),
+		timer: null,
+	};
+
+	console.log(`[SessionReplay] Replaying ${updates.length} updates from ${resolved} at ${session.speed}x`);
+	scheduleNext(session);
+	return getReplayStatus()!;
+}
+
+/**
+ * Pauses playback at the current position
+ */
+export function pauseReplay(): void {
+	if (!session || session.resumedAt === null) {
+		return;
+	}
+	session.basePositionMs = getPosition(session);
+	session.resumedAt = null;
+	scheduleNext(session);
+}
+
+/**
+ * Resumes playback from the current position
+ */
+export function resumeReplay(): void {
+	if (!session || session.resumedAt !== null) {
+		return;
+	}
+	if (session.index >= session.updates.length) {
+		session.index = 0;
+		session.basePositionMs = 0;
+	}
+	session.resumedAt = Date.now();
+	scheduleNext(session);
+}
+
+/**
+ * Changes the playback speed, keeping the current position
+ */
+export function setReplaySpeed(speed: number): void {
+	if (!session || !(speed > 0)) {
+		return;
+	}
+	session.basePositionMs = getPosition(session);
+	if (session.resumedAt !== null) {
+		session.resumedAt = Date.now();
+	}
+	session.speed = speed;
+	scheduleNext(session);
+}
+
+/**
+ * Jumps to a position, immediately applying the latest state of every client at that point
+ */
+export function seekReplay(positionMs: number): void {
+	if (!session) {
+		return;
+	}
+
+	const current = session;
+	const duration = current.offsets[current.offsets.length - 1];
+	const target = Math.max(0, Math.min(duration, positionMs));
+
+	// Apply the last update at or before the target for each client
+	const latest = new Map<string, RecordedUpdate>();
+	let index = 0;
+	while (index < current.updates.length && current.offsets[index] <= target) {
+		latest.set(current.updates[index].clientId, current.updates[index]);
+		index++;
+	}
+	for (const update of latest.values()) {
+		current.apply(update.clientId, update.state);
+	}
+
+	current.index = index;
+	current.basePositionMs = target;
+	if (current.resumedAt !== null) {
+		current.resumedAt = Date.now();
+	}
+	scheduleNext(current);
+}
+
+/**
+ * Stops playback and unloads the session
+ */
+export function stopReplay(): void {
+	if (!session) {
+		return;
+	}
+	if (session.timer) {
+		clearTimeout(session.timer);
+	}
+	console.log(`[SessionReplay] Stopped ${session.file}`);
+	session = null;
+}
+
+/**
+ * Returns true while a session is loaded, playing or paused
+ */
+export function isReplaying(): boolean {
+	return session !== null;
+}
+
+/**
+ * Gets the replay status, or null if nothing is loaded
+ */
+export function getReplayStatus(): ReplayStatus | null {
+	if (!session) {
+		return null;
+	}
+	return {
+		file: session.file,
+		playing: session.resumedAt !== null,
+		speed: session.speed,
+		loop: session.loop,
+		positionMs: Math.round(getPosition(session)),
+		durationMs: session.offsets[session.offsets.length - 1],
+		index: session.index,
+		total: session.updates.length,
+	};
+}
@@ -0,0 +1,47 @@
+/**
+ * The 23 skills, keyed as RuneLite sends them
+ */
+export const SKILL_NAMES = [
+	'attack', 'hitpoints', 'mining',
+	'strength', 'agility', 'smithing',
+	'defence', 'herblore', 'fishing',
+	'ranged', 'thieving', 'cooking',
+	'prayer', 'crafting', 'firemaking',
+	'magic', 'fletching', 'woodcutting',
+	'runecraft', 'slayer', 'farming',
+	'construction', 'hunter',
+] as const;
+
+export type SkillName = typeof SKILL_NAMES[number];
+
+/**
+ * Highest level a skill can reach
+ */
+export const MAX_LEVEL = 99;
+
+/**
+ * Total XP needed for each level, indexed by level
+ */
+const XP_TABLE: number[] = (() => {
+	const table = [0, 0];
+	let points = 0;
+	for (let level = 1; level < MAX_LEVEL; level++) {
+		points += Math.floor(level + 300 * Math.pow(2, level / 7));
+		table.push(Math.floor(points / 4));
+	}
+	return table;
+})();
+
+/**
+ * Gets the total XP needed to reach a level
+ */
+export function getXpForLevel(level: number): number {
+	return XP_TABLE[Math.max(1, Math.min(MAX_LEVEL, Math.floor(level)))];
+}
+
+/**
+ * Formats a skill key for display, e.g. "runecraft" becomes "Runecraft"
+ */
+export function formatSkillName(skill: string): string {
+	return skill.charAt(0).toUpperCase() + skill.slice(1);
+}
@@ -1,4 +1,88 @@
 import * as http from 'http';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { validateState } from './state-validator';
+import { acknowledgeCommand, waitForCommands } from './command-queue';
+import { getRenderTimings, getImageUpdateCounts } from './metrics';
+import { cacheItemIcon } from './items';
+import { cacheEffectIcon } from './effects';
+import type { SkillName } from './skills';
+import { startReplay, pauseReplay, resumeReplay, seekReplay, setReplaySpeed, stopReplay, isReplaying, getReplayStatus, listSessions, isSessionName, RECORDINGS_DIR } from './session-replay';
+
+/**
+ * An item in one inventory slot
+ */
+export type InventoryItem = {
+	/** Slot index, 0-27 */
+	slot: number;
+	/** Item id; -1 for an empty slot */
+	id: number;
+	name?: string;
+	quantity: number;
+	/** Item sprite as a base64 PNG, sent at least once per item id */
+	icon?: string;
+};
+
+/**
+ * A timed effect such as a stamina or antifire potion
+ */
+export type EffectTimer = {
+	/** Effect key, e.g. "stamina" or "divine_super_combat" */
+	id: string;
+	/** Time left, in the given unit */
+	remaining: number;
+	/** Full length of the effect, in the given unit */
+	duration: number;
+	/** Defaults to seconds; a tick is 0.6 seconds */
+	unit?: 'ticks' | 'seconds';
+	/** Effect icon as a base64 PNG, sent at least once per effect id */
+	icon?: string;
+};
+
+/**
+ * Health of the NPC or player being fought
+ */
+export type OpponentHealth = {
+	name: string;
+	/** Health bar fill as RuneLite reports it, out of healthScale; -1 if unknown */
+	healthRatio: number;
+	healthScale: number;
+	/** Exact hitpoints, when known (e.g. from monster stats) */
+	hp?: {
+		current: number;
+		max: number;
+	};
+};
+
+/**
+ * Equipment slots, keyed as RuneLite sends them
+ */
+export type EquipmentSlot = 'head' | 'cape' | 'amulet' | 'weapon' | 'body' | 'shield' | 'legs' | 'gloves' | 'boots' | 'ring' | 'ammo';
+
+/**
+ * An item in one equipment slot
+ */
+export type EquipmentItem = {
+	id: number;
+	name?: string;
+	/** Stack size; above 1 only for ammo and thrown weapons */
+	quantity: number;
+	/** Charge counters in display order, e.g. blowpipe scales then darts */
+	charges?: { name: string; count: number }[];
+	/** Item sprite as a base64 PNG, sent at least once per item id */
+	icon?: string;
+};
+
+/**
+ * Level and XP of one skill
+ */
+export type SkillStats = {
+	level: number;
+	boostedLevel: number;
+	xp: number;
+};
 
 /**
  * RuneLite state received from the HTTP endpoint
@@ -17,31 +101,128 @@ export type RuneLiteState = {
 		prayer?: {
 			current: number;
 			max: number;
+			/** Prayer bonus from equipment, which slows drain */
+			bonus?: number;
 		};
 		runEnergy?: number;
 		runEnabled?: boolean;
 		specialAttack?: number;
 		specialAttackEnabled?: boolean;
 		specialAttackAvailable?: boolean;
+		skills?: { [skill in SkillName]?: SkillStats };
 	};
 	activePrayers?: string[];
+	/** Whether quick prayers are on; without it, quick prayers are assumed on whenever any prayer is */
+	quickPrayersEnabled?: boolean;
+	/** Prayers chosen as quick prayers */
+	quickPrayerSelection?: string[];
 	activeTab?: string;
+	/** Occupied inventory slots; slots that are missing are empty */
+	inventory?: InventoryItem[];
+	/** Equipped items; slots that are missing are empty */
+	equipment?: { [slot in EquipmentSlot]?: EquipmentItem };
+	/** Game tick counter, increasing by one every 0.6 seconds */
+	tick?: number;
+	/** Attack timing of the equipped weapon */
+	attack?: {
+		/** Ticks between attacks */
+		speed: number;
+		/** Tick of the last attack, used to align the attack cycle */
+		lastTick?: number;
+	};
+	/** Active timed effects; an effect that is missing has run out */
+	timers?: EffectTimer[];
+	/** Current combat target; omitted, or patched to null, when there is none */
+	opponent?: OpponentHealth;
+	/** Set by the client whose game window currently has focus */
+	focused?: boolean;
 };
 
 /**
- * Callback type for state change listeners
+ * Options for the state server
+ */
+export type ServerOptions = {
+	/** Interface to bind; defaults to loopback only */
+	host?: string;
+	/** Shared secret required on every request, sent as a bearer token or X-Auth-Token header. One is generated if unset. */
+	authToken?: string;
+	/** Browser origins allowed to call the server */
+	allowedOrigins?: string[];
+	/** Time without updates after which RuneLite is considered disconnected */
+	staleTimeoutMs?: number;
+};
+
+/**
+ * Client selection that follows whichever RuneLite client is active
+ */
+export const ACTIVE_CLIENT = 'active';
+
+/**
+ * Summary of a connected RuneLite client
+ */
+export type ClientInfo = {
+	id: string;
+	playerName?: string;
+	connected: boolean;
+	active: boolean;
+	lastUpdateAt: string;
+};
+
+/**
+ * Callback type for state change listeners, called with the client that changed.
+ * clientId is undefined when every key should re-render, e.g. after the server failed to start.
+ */
+type StateListener = (state: RuneLiteState, clientId?: string) => void;
+
+/**
+ * Callback type for game tick listeners, called as soon as a tick arrives without waiting for state diffing
+ */
+type TickListener = (tick: number, clientId: string) => void;
+
+/**
+ * State and connection tracking for one RuneLite client
+ */
+type ClientEntry = {
+	state: RuneLiteState;
+	lastUpdateAt: number;
+	connected: boolean;
+	staleTimer: NodeJS.Timeout | null;
+};
+
+/**
+ * State storage per RuneLite client
+ */
+const clients = new Map<string, ClientEntry>();
+
+/**
+ * Id of a client that has not identified itself, e.g. one posting before login
+ */
+const DEFAULT_CLIENT_ID = 'default';
+
+/**
+ * Client that "active" selections resolve to
+ */
+let activeClientId: string | null = null;
+
+/**
+ * Client that sent the most recent update, used for updates that do not identify themselves
  */
-type StateListener = (state: RuneLiteState) => void;
+let lastClientId: string | null = null;
 
 /**
- * Global state storage
+ * Registered state change listeners with the state paths they depend on (undefined means all)
  */
-let currentState: RuneLiteState = {};
+const listeners = new Map<StateListener, string[] | undefined>();
 
 /**
- * Registered state change listeners
+ * Registered game tick listeners
  */
-const listeners: Set<StateListener> = new Set();
+const tickListeners = new Set<TickListener>();
+
+/**
+ * Last tick received per client, used to number ticks sent without a counter
+ */
+const lastTicks = new Map<string, number>();
 
 /**
  * HTTP server instance
@@ -54,17 +235,136 @@ let server: http.Server | null = null;
 let currentPort = 8085;
 
 /**
- * Gets the current RuneLite state
+ * How many ports after the configured one are tried when it is in use
+ */
+const MAX_PORT_FALLBACKS = 10;
+
+/**
+ * Why the server could not start, or null if it is running or was never started
+ */
+let serverError: string | null = null;
+
+/**
+ * Open recording file, or null when not recording
+ */
+let recordingStream: fs.WriteStream | null = null;
+
+/**
+ * Path of the current recording
+ */
+let recordingFile: string | null = null;
+
+/**
+ * Number of updates written to the current recording
+ */
+let recordedCount = 0;
+
+/**
+ * File where the bound port is published so the RuneLite plugin can find it
+ */
+const DISCOVERY_FILE = path.join(os.homedir(), '.runelite', 'streamdeck-runelite.json');
+
+/**
+ * Active server options
  */
-export function getState(): RuneLiteState {
-	return currentState;
+let serverOptions: ServerOptions = {};
+
+/**
+ * Token required when none is configured, published in the discovery file
+ */
+let generatedToken: string | null = null;
+
+/**
+ * Number of requests refused by the origin or token checks
+ */
+let unauthorizedRequestCount = 0;
+
+/**
+ * Number of state updates that failed validation
+ */
+let rejectedUpdateCount = 0;
+
+/**
+ * Number of state updates applied
+ */
+let updateCount = 0;
+
+/**
+ * Number of state updates whose body was not valid JSON
+ */
+let parseFailureCount = 0;
+
+/**
+ * Time of the last applied state update, or null if none has arrived
+ */
+let lastUpdateAt: number | null = null;
+
+/**
+ * Time the server started listening
+ */
+let startedAt: number | null = null;
+
+/**
+ * Default time without updates before RuneLite is considered disconnected
+ */
+const DEFAULT_STALE_TIMEOUT_MS = 10000;
+
+/**
+ * Resolves a client selection to a client id, mapping "active" (or no selection) to the active client
+ */
+export function resolveClientId(clientId?: string): string | null {
+	if (!clientId || clientId === ACTIVE_CLIENT) {
+		return activeClientId;
+	}
+	return clientId;
 }
 
 /**
- * Registers a listener for state changes
+ * Returns true if a key with the given client selection shows the given client
  */
-export function addStateListener(listener: StateListener): void {
-	listeners.add(listener);
+export function matchesClient(selectedClientId: string | undefined, clientId: string | undefined): boolean {
+	return clientId === undefined || resolveClientId(selectedClientId) === clientId;
+}
+
+/**
+ * Gets the current RuneLite state for a client, defaulting to the active client
+ */
+export function getState(clientId?: string): RuneLiteState {
+	const id = resolveClientId(clientId);
+	return (id !== null && clients.get(id)?.state) || {};
+}
+
+/**
+ * Returns true if the client has sent state within the stale timeout
+ */
+export function isConnected(clientId?: string): boolean {
+	const id = resolveClientId(clientId);
+	return id !== null && clients.get(id)?.connected === true;
+}
+
+/**
+ * Lists every client that has sent state, most recently updated first
+ */
+export function getClients(): ClientInfo[] {
+	return Array.from(clients.entries())
+		.sort(([, a], [, b]) => b.lastUpdateAt - a.lastUpdateAt)
+		.map(([id, entry]) => ({
+			id,
+			playerName: entry.state.player?.name,
+			connected: entry.connected,
+			active: id === activeClientId,
+			lastUpdateAt: new Date(entry.lastUpdateAt).toISOString(),
+		}));
+}
+
+/**
+ * Registers a listener for state changes.
+ * With selectors (dot paths such as 'stats.hp' or 'activePrayers'), the listener is only called
+ * when one of those slices changed. Listeners are always called when the connection goes stale
+ * or comes back, or when the active client changes.
+ */
+export function addStateListener(listener: StateListener, selectors?: string[]): void {
+	listeners.set(listener, selectors);
 }
 
 /**
@@ -75,12 +375,77 @@ export function removeStateListener(listener: StateListener): void {
 }
 
 /**
- * Notifies all listeners of a state change
+ * Registers a listener called on every game tick
+ */
+export function addTickListener(listener: TickListener): void {
+	tickListeners.add(listener);
+}
+
+/**
+ * Removes a game tick listener
  */
-function notifyListeners(): void {
-	for (const listener of listeners) {
+export function removeTickListener(listener: TickListener): void {
+	tickListeners.delete(listener);
+}
+
+/**
+ * Notifies tick listeners of a game tick
+ */
+function emitTick(clientId: string, tick: number): void {
+	lastTicks.set(clientId, tick);
+	tickListeners.forEach(listener => {
 		try {
-			listener(currentState);
+			listener(tick, clientId);
+		} catch (error) {
+			console.error('[StateServer] Error in tick listener:', error);
+		}
+	});
+}
+
+/**
+ * Reads the value at a dot path such as 'stats.hp'
+ */
+function getSlice(state: RuneLiteState, selector: string): unknown {
+	let value: unknown = state;
+	for (const key of selector.split('.')) {
+		if (!isPlainObject(value)) {
+			return undefined;
+		}
+		value = value[key];
+	}
+	return value;
+}
+
+/**
+ * Compares two JSON values structurally
+ */
+function isDeepEqual(a: unknown, b: unknown): boolean {
+	if (a === b) {
+		return true;
+	}
+	if (Array.isArray(a) && Array.isArray(b)) {
+		return a.length === b.length && a.every((item, index) => isDeepEqual(item, b[index]));
+	}
+	if (isPlainObject(a) && isPlainObject(b)) {
+		const keys = Object.keys(a);
+		return keys.length === Object.keys(b).length && keys.every(key => key in b && isDeepEqual(a[key], b[key]));
+	}
+	return false;
+}
+
+/**
+ * Notifies listeners of a state change for a client, or for every client if none is given.
+ * When the previous state is given, listeners with selectors are skipped if none of their slices changed.
+ */
+function notifyListeners(clientId?: string, previousState?: RuneLiteState): void {
+	const state = clientId !== undefined ? clients.get(clientId)?.state || {} : getState();
+	for (const [listener, selectors] of listeners) {
+		if (previousState && selectors && selectors.every(selector => isDeepEqual(getSlice(previousState, selector), getSlice(state, selector)))) {
+			continue;
+		}
+
+		try {
+			listener(state, clientId);
 		} catch (error) {
 			console.error('[StateServer] Error in listener:', error);
 		}
@@ -88,21 +453,698 @@ function notifyListeners(): void {
 }
 
 /**
- * Starts the HTTP server to receive state from RuneLite
+ * Makes a client the active one; callers notify listeners so keys following "active" re-render
  */
-export function startServer(port: number = 8085): void {
+function setActiveClient(clientId: string): void {
+	if (activeClientId !== clientId) {
+		activeClientId = clientId;
+		console.log(`[StateServer] Active client is now ${clientId}`);
+	}
+}
+
+/**
+ * Restarts a client's stale timer after an update, marking it connected
+ */
+function refreshConnection(clientId: string, entry: ClientEntry): void {
+	if (entry.staleTimer) {
+		clearTimeout(entry.staleTimer);
+	}
+
+	entry.staleTimer = setTimeout(() => {
+		entry.staleTimer = null;
+		entry.connected = false;
+		console.log(`[StateServer] No state received recently, marking client ${clientId} disconnected`);
+		notifyListeners(clientId);
+
+		// Hand "active" over to another client that is still sending state
+		if (activeClientId === clientId) {
+			const fallback = getClients().find(client => client.connected);
+			if (fallback) {
+				setActiveClient(fallback.id);
+				notifyListeners(fallback.id);
+			}
+		}
+	}, serverOptions.staleTimeoutMs ?? DEFAULT_STALE_TIMEOUT_MS);
+
+	if (!entry.connected) {
+		entry.connected = true;
+		console.log(`[StateServer] Client ${clientId} connected`);
+	}
+}
+
+/**
+ * Gets the client id a request identifies itself with, from the X-Client-Id header or ?client= parameter
+ */
+function getRequestClientId(req: http.IncomingMessage, url: URL): string | undefined {
+	const header = req.headers['x-client-id'];
+	const headerId = Array.isArray(header) ? header[0] : header;
+	return headerId || url.searchParams.get('client') || undefined;
+}
+
+/**
+ * Moves a client's state to a new id, keeping its connection and "active" status
+ */
+function renameClient(fromId: string, toId: string): void {
+	const entry = clients.get(fromId);
+	if (!entry) {
+		return;
+	}
+
+	clients.delete(fromId);
+	clients.set(toId, entry);
+	console.log(`[StateServer] Client ${fromId} is now ${toId}`);
+
+	// The stale timer reports the client by id
+	if (entry.staleTimer) {
+		refreshConnection(toId, entry);
+	}
+	const tick = lastTicks.get(fromId);
+	if (tick !== undefined) {
+		lastTicks.delete(fromId);
+		lastTicks.set(toId, tick);
+	}
+	if (lastClientId === fromId) {
+		lastClientId = toId;
+	}
+	if (activeClientId === fromId) {
+		setActiveClient(toId);
+	}
+}
+
+/**
+ * Gets the client a request without a client id belongs to. With several clients known it cannot be told, so null is returned.
+ */
+function getUnidentifiedClientId(): string | null {
+	if (clients.size > 1) {
+		return null;
+	}
+	return lastClientId || DEFAULT_CLIENT_ID;
+}
+
+/**
+ * Determines which client an update belongs to: the request's client id, the player name,
+ * or otherwise the only client known. Returns null if several clients are known and the update does not say which it is from.
+ * A client that posted before login is moved to its player name once it sends one.
+ */
+function getUpdateClientId(req: http.IncomingMessage, url: URL, payload: { [key: string]: unknown }): string | null {
+	const requestClientId = getRequestClientId(req, url);
+	if (requestClientId) {
+		return requestClientId;
+	}
+
+	const player = payload.player;
+	const playerName = isPlainObject(player) && typeof player.name === 'string' ? player.name : undefined;
+	if (playerName) {
+		if (clients.has(DEFAULT_CLIENT_ID) && !clients.has(playerName)) {
+			renameClient(DEFAULT_CLIENT_ID, playerName);
+		}
+		return playerName;
+	}
+
+	return getUnidentifiedClientId();
+}
+
+/**
+ * Gets the token every request must send: the configured one, or else one generated on first start.
+ * RuneLite reads either from the discovery file, like the port.
+ */
+function getAuthToken(): string {
+	if (serverOptions.authToken) {
+		return serverOptions.authToken;
+	}
+	if (!generatedToken) {
+		generatedToken = crypto.randomBytes(32).toString('hex');
+		console.log('[StateServer] No auth token configured, generated one for the discovery file');
+	}
+	return generatedToken;
+}
+
+/**
+ * Publishes the bound host, port and auth token for the RuneLite plugin. Only the current user can read the file.
+ */
+function writeDiscoveryFile(host: string, port: number): void {
+	try {
+		fs.mkdirSync(path.dirname(DISCOVERY_FILE), { recursive: true });
+		const contents = { host, port, pid: process.pid, startedAt: new Date().toISOString(), authToken: getAuthToken() };
+		fs.writeFileSync(DISCOVERY_FILE, JSON.stringify(contents, null, 2), { mode: 0o600 });
+		fs.chmodSync(DISCOVERY_FILE, 0o600);
+		console.log(`[StateServer] Wrote discovery file ${DISCOVERY_FILE}`);
+	} catch (error) {
+		console.error('[StateServer] Error writing discovery file:', error);
+	}
+}
+
+/**
+ * Removes the discovery file if this process wrote it
+ */
+function removeDiscoveryFile(): void {
+	try {
+		const contents = JSON.parse(fs.readFileSync(DISCOVERY_FILE, 'utf8'));
+		if (contents.pid === process.pid) {
+			fs.unlinkSync(DISCOVERY_FILE);
+		}
+	} catch (error) {
+		// Nothing to clean up
+	}
+}
+
+/**
+ * Writes a JSON response
+ */
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+	res.writeHead(status, { 'Content-Type': 'application/json' });
+	res.end(JSON.stringify(body));
+}
+
+/**
+ * Returns true if the value is a plain JSON object
+ */
+function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep-merges a partial update into a target object.
+ * Nested objects are merged, arrays and primitives replace, and null deletes the key.
+ */
+function deepMerge(target: { [key: string]: unknown }, patch: { [key: string]: unknown }): { [key: string]: unknown } {
+	const result: { [key: string]: unknown } = { ...target };
+	for (const [key, value] of Object.entries(patch)) {
+		if (value === null) {
+			delete result[key];
+		} else if (isPlainObject(value) && isPlainObject(result[key])) {
+			result[key] = deepMerge(result[key] as { [key: string]: unknown }, value);
+		} else {
+			result[key] = value;
+		}
+	}
+	return result;
+}
+
+/**
+ * Puts back the stored value of any field the validator dropped from a merged delta,
+ * so an invalid field in a delta is rejected without losing the last good value.
+ */
+function keepDroppedFields(validated: { [key: string]: unknown }, merged: { [key: string]: unknown }, base: { [key: string]: unknown }): { [key: string]: unknown } {
+	const result: { [key: string]: unknown } = { ...validated };
+	for (const key of Object.keys(merged)) {
+		if (!(key in base)) {
+			continue;
+		}
+		if (!(key in result)) {
+			result[key] = base[key];
+		} else if (isPlainObject(result[key]) && isPlainObject(merged[key]) && isPlainObject(base[key])) {
+			result[key] = keepDroppedFields(result[key] as { [key: string]: unknown }, merged[key] as { [key: string]: unknown }, base[key] as { [key: string]: unknown });
+		}
+	}
+	return result;
+}
+
+/**
+ * Keeps the item and effect icons a state carries, since senders only include each icon once.
+ * They are cached as updates arrive so an icon is not lost when no key showing it is visible.
+ */
+function cacheIcons(state: RuneLiteState): void {
+	for (const item of state.inventory || []) {
+		cacheItemIcon(item.id, item.icon);
+	}
+	for (const item of Object.values(state.equipment || {})) {
+		cacheItemIcon(item.id, item.icon);
+	}
+	for (const timer of state.timers || []) {
+		cacheEffectIcon(timer.id, timer.icon);
+	}
+}
+
+/**
+ * Stores a validated state for a client and notifies listeners.
+ * Replayed states keep the client connected without arming its stale timer, so pausing a replay does not show "no signal".
+ */
+function applyClientState(clientId: string, newState: RuneLiteState, replayed: boolean = false): void {
+	const entry = clients.get(clientId) || { state: {}, lastUpdateAt: 0, connected: false, staleTimer: null };
+	const previousState = entry.state;
+	const wasConnected = entry.connected;
+	const previousActiveClientId = activeClientId;
+
+	cacheIcons(newState);
+	entry.state = newState;
+	entry.lastUpdateAt = Date.now();
+	clients.set(clientId, entry);
+	updateCount++;
+	lastUpdateAt = entry.lastUpdateAt;
+	lastClientId = clientId;
+
+	if (replayed) {
+		if (entry.staleTimer) {
+			clearTimeout(entry.staleTimer);
+			entry.staleTimer = null;
+		}
+		entry.connected = true;
+	} else {
+		refreshConnection(clientId, entry);
+	}
+
+	// The focused client becomes active; otherwise the first client to connect is, or any client sending state while the active one is offline
+	if (newState.focused === true || activeClientId === null || !clients.get(activeClientId)?.connected) {
+		setActiveClient(clientId);
+	}
+
+	// Ticks go out first so tick listeners do not wait for the state render
+	if (newState.tick !== undefined && newState.tick !== previousState.tick) {
+		emitTick(clientId, newState.tick);
+	}
+
+	// Reconnecting or switching the active client changes more than the state slices, so notify everyone
+	const fullRefresh = !wasConnected || activeClientId !== previousActiveClientId;
+	notifyListeners(clientId, fullRefresh ? undefined : previousState);
+}
+
+/**
+ * Appends an applied state to the recording, if one is running
+ */
+function recordUpdate(clientId: string, state: RuneLiteState): void {
+	if (!recordingStream) {
+		return;
+	}
+	recordingStream.write(JSON.stringify({ t: Date.now(), clientId, state }) + '\n');
+	recordedCount++;
+}
+
+/**
+ * Starts appending every received state to a JSONL file in the recordings directory, by default a new one.
+ * The file must be a plain name. Returns the path being written.
+ */
+export function startRecording(file?: string): string {
+	if (file !== undefined && !isSessionName(file)) {
+		throw new Error(`Not a session name: ${file}`);
+	}
+	stopRecording();
+
+	const target = path.join(RECORDINGS_DIR, file ? (file.endsWith('.jsonl') ? file : `${file}.jsonl`) : `session-${new Date().toISOString().replace(/[:.]/g, '-')}.jsonl`);
+	fs.mkdirSync(path.dirname(target), { recursive: true });
+
+	recordingStream = fs.createWriteStream(target, { flags: 'a' });
+	recordingStream.on('error', error => {
+		console.error('[StateServer] Error writing recording:', error);
+		stopRecording();
+	});
+	recordingFile = target;
+	recordedCount = 0;
+	console.log(`[StateServer] Recording state updates to ${target}`);
+	return target;
+}
+
+/**
+ * Stops the current recording
+ */
+export function stopRecording(): void {
+	if (!recordingStream) {
+		return;
+	}
+	recordingStream.end();
+	recordingStream = null;
+	console.log(`[StateServer] Stopped recording ${recordingFile} after ${recordedCount} updates`);
+}
+
+/**
+ * Applies a state update body, either replacing or deep-merging into the current state
+ */
+function handleStateUpdate(req: http.IncomingMessage, url: URL, body: string, merge: boolean, res: http.ServerResponse): void {
+	let payload: unknown;
+	try {
+		payload = JSON.parse(body);
+	} catch (error) {
+		console.error('[StateServer] Error parsing state:', error);
+		parseFailureCount++;
+		rejectedUpdateCount++;
+		sendJson(res, 400, { error: 'Invalid JSON' });
+		return;
+	}
+
+	// A payload that is not an object at all is rejected outright
+	if (!isPlainObject(payload)) {
+		rejectedUpdateCount++;
+		sendJson(res, 400, { error: 'Invalid state', errors: validateState(payload).errors });
+		return;
+	}
+
+	const clientId = getUpdateClientId(req, url, payload);
+	if (clientId === null) {
+		rejectedUpdateCount++;
+		sendJson(res, 400, { error: 'X-Client-Id is required once several clients have sent state' });
+		return;
+	}
+	const base = clients.get(clientId)?.state || {};
+
+	// Deltas are validated after merging so required fields can come from the existing state
+	const merged = merge ? deepMerge(base as { [key: string]: unknown }, payload) : payload;
+	const { state: validated, errors } = validateState(merged);
+	const newState = merge && errors.length > 0
+		? keepDroppedFields(validated as { [key: string]: unknown }, merged, base as { [key: string]: unknown }) as RuneLiteState
+		: validated;
+
+	// Valid fields are still applied so unaffected meters keep updating
+	console.log(`[StateServer] Received state ${merge ? 'delta' : 'update'} from ${clientId}:`, JSON.stringify(payload));
+	applyClientState(clientId, newState);
+	recordUpdate(clientId, newState);
+
+	if (errors.length > 0) {
+		rejectedUpdateCount++;
+		console.warn(`[StateServer] State update had ${errors.length} invalid field(s):`, JSON.stringify(errors));
+		sendJson(res, 400, { error: 'Invalid state', errors });
+		return;
+	}
+
+	sendJson(res, 200, { success: true });
+}
+
+/**
+ * Handles a lightweight tick event. It skips validation, diffing and recording so tick listeners fire with minimal delay.
+ */
+function handleTick(req: http.IncomingMessage, url: URL, body: string, res: http.ServerResponse): void {
+	const payload = parseControlBody(body);
+	if (payload === null || (payload.tick !== undefined && (typeof payload.tick !== 'number' || !Number.isFinite(payload.tick)))) {
+		sendJson(res, 400, { error: 'Expected an optional numeric tick' });
+		return;
+	}
+
+	const clientId = getRequestClientId(req, url) || getUnidentifiedClientId();
+	if (clientId === null) {
+		sendJson(res, 400, { error: 'X-Client-Id is required once several clients have sent state' });
+		return;
+	}
+	const tick = typeof payload.tick === 'number' ? payload.tick : (lastTicks.get(clientId) ?? 0) + 1;
+
+	// Ticks keep a connected client from going stale between state updates
+	const entry = clients.get(clientId);
+	if (entry?.connected) {
+		refreshConnection(clientId, entry);
+	}
+
+	res.writeHead(204);
+	res.end();
+	emitTick(clientId, tick);
+}
+
+/**
+ * Builds the GET /health response
+ */
+function getHealth(): object {
+	return {
+		status: 'ok',
+		uptimeMs: startedAt !== null ? Date.now() - startedAt : 0,
+		connected: isConnected(),
+		activeClient: activeClientId,
+		clients: getClients(),
+		lastUpdateAt: lastUpdateAt !== null ? new Date(lastUpdateAt).toISOString() : null,
+		port: currentPort,
+		listenerCount: listeners.size,
+	};
+}
+
+/**
+ * Builds the GET /metrics response
+ */
+function getMetrics(): object {
+	return {
+		updates: updateCount,
+		rejectedUpdates: rejectedUpdateCount,
+		parseFailures: parseFailureCount,
+		unauthorizedRequests: unauthorizedRequestCount,
+		renderTimings: getRenderTimings(),
+		imageUpdates: getImageUpdateCounts(),
+	};
+}
+
+/**
+ * Longest time a GET /commands long-poll may wait
+ */
+const MAX_COMMAND_WAIT_MS = 30000;
+
+/**
+ * Handles a long-poll for queued commands
+ */
+function handleCommandPoll(req: http.IncomingMessage, res: http.ServerResponse, url: URL): void {
+	const requestedWait = Number(url.searchParams.get('wait') ?? 25000);
+	const waitMs = Number.isFinite(requestedWait) ? Math.max(0, Math.min(MAX_COMMAND_WAIT_MS, requestedWait)) : 0;
+
+	const cancel = waitForCommands(getRequestClientId(req, url), waitMs, commands => {
+		sendJson(res, 200, { commands });
+	});
+
+	// Stop waiting if RuneLite gives up on the request
+	res.on('close', () => {
+		if (!res.writableEnded) {
+			cancel();
+		}
+	});
+}
+
+/**
+ * Handles RuneLite acknowledging a delivered command
+ */
+function handleCommandAck(id: string, body: string, res: http.ServerResponse): void {
+	let payload: { success?: unknown; error?: unknown } = {};
+	try {
+		payload = body ? JSON.parse(body) : {};
+	} catch (error) {
+		sendJson(res, 400, { error: 'Invalid JSON' });
+		return;
+	}
+
+	const success = payload.success !== false;
+	const errorMessage = typeof payload.error === 'string' ? payload.error : undefined;
+
+	if (!acknowledgeCommand(id, success, errorMessage)) {
+		sendJson(res, 404, { error: 'Unknown command' });
+		return;
+	}
+
+	sendJson(res, 200, { success: true });
+}
+
+/**
+ * Collects a request body and passes it to the callback once complete
+ */
+function readBody(req: http.IncomingMessage, callback: (body: string) => void): void {
+	let body = '';
+
+	req.on('data', chunk => {
+		body += chunk.toString();
+	});
+
+	req.on('end', () => {
+		callback(body);
+	});
+}
+
+/**
+ * Parses an optional JSON object body for the control endpoints
+ */
+function parseControlBody(body: string): { [key: string]: unknown } | null {
+	if (!body.trim()) {
+		return {};
+	}
+	try {
+		const payload = JSON.parse(body);
+		return isPlainObject(payload) ? payload : null;
+	} catch (error) {
+		return null;
+	}
+}
+
+/**
+ * Builds the GET /recording response
+ */
+function getRecordingStatus(): object {
+	return {
+		recording: recordingStream !== null,
+		file: recordingFile,
+		updates: recordedCount,
+	};
+}
+
+/**
+ * Handles POST /recording/start and /recording/stop
+ */
+function handleRecordingControl(start: boolean, body: string, res: http.ServerResponse): void {
+	const payload = parseControlBody(body);
+	if (!payload) {
+		sendJson(res, 400, { error: 'Invalid JSON' });
+		return;
+	}
+
+	if (!start) {
+		stopRecording();
+	} else {
+		if (typeof payload.file === 'string' && !isSessionName(payload.file)) {
+			sendJson(res, 400, { error: 'file must be a name, without a folder' });
+			return;
+		}
+		try {
+			startRecording(typeof payload.file === 'string' ? payload.file : undefined);
+		} catch (error) {
+			console.error('[StateServer] Error starting recording:', error);
+			sendJson(res, 500, { error: 'Could not start recording' });
+			return;
+		}
+	}
+
+	sendJson(res, 200, getRecordingStatus());
+}
+
+/**
+ * Arms the stale timers of replayed clients once a replay is unloaded, so they go stale normally from here on
+ */
+function endReplayedConnections(): void {
+	for (const [clientId, entry] of clients) {
+		if (entry.connected && !entry.staleTimer) {
+			refreshConnection(clientId, entry);
+		}
+	}
+}
+
+/**
+ * Handles POST /replay/start, pause, resume, seek, speed and stop
+ */
+function handleReplayControl(command: string, body: string, res: http.ServerResponse): void {
+	const payload = parseControlBody(body);
+	if (!payload) {
+		sendJson(res, 400, { error: 'Invalid JSON' });
+		return;
+	}
+
+	switch (command) {
+		case 'start':
+			if (typeof payload.file !== 'string') {
+				sendJson(res, 400, { error: 'file is required' });
+				return;
+			}
+			if (!isSessionName(payload.file)) {
+				sendJson(res, 400, { error: 'file must be a name, without a folder' });
+				return;
+			}
+			try {
+				startReplay(payload.file, (clientId, state) => applyClientState(clientId, validateState(state).state, true), {
+					speed: typeof payload.speed === 'number' ? payload.speed : undefined,
+					loop: payload.loop === true,
+					onFinish: endReplayedConnections,
+				});
+			} catch (error) {
+				console.error('[StateServer] Error starting replay:', error);
+				sendJson(res, 400, { error: `Could not load ${payload.file}` });
+				return;
+			}
+			break;
+		case 'pause':
+			pauseReplay();
+			break;
+		case 'resume':
+			resumeReplay();
+			break;
+		case 'seek':
+			if (typeof payload.positionMs !== 'number') {
+				sendJson(res, 400, { error: 'positionMs is required' });
+				return;
+			}
+			seekReplay(payload.positionMs);
+			break;
+		case 'speed':
+			if (typeof payload.speed !== 'number' || payload.speed <= 0) {
+				sendJson(res, 400, { error: 'speed must be a positive number' });
+				return;
+			}
+			setReplaySpeed(payload.speed);
+			break;
+		case 'stop':
+			stopReplay();
+			endReplayedConnections();
+			break;
+		default:
+			sendJson(res, 404, { error: 'Not found' });
+			return;
+	}
+
+	sendJson(res, 200, { replay: getReplayStatus() });
+}
+
+/**
+ * Extracts the shared secret from the Authorization or X-Auth-Token header
+ */
+function getRequestToken(req: http.IncomingMessage): string | undefined {
+	const authorization = req.headers['authorization'];
+	if (authorization?.startsWith('Bearer ')) {
+		return authorization.slice('Bearer '.length).trim();
+	}
+
+	const header = req.headers['x-auth-token'];
+	return Array.isArray(header) ? header[0] : header;
+}
+
+/**
+ * Compares two tokens in constant time
+ */
+function tokensMatch(expected: string, actual: string): boolean {
+	const expectedHash = new Uint8Array(crypto.createHash('sha256').update(expected).digest());
+	const actualHash = new Uint8Array(crypto.createHash('sha256').update(actual).digest());
+	return crypto.timingSafeEqual(expectedHash, actualHash);
+}
+
+/**
+ * Logs and refuses a request that failed the origin or token checks
+ */
+function rejectRequest(req: http.IncomingMessage, res: http.ServerResponse, status: number, reason: string): void {
+	unauthorizedRequestCount++;
+	console.warn(`[StateServer] Rejected ${req.method} ${req.url} from ${req.socket.remoteAddress} (origin: ${req.headers.origin || 'none'}): ${reason}`);
+	sendJson(res, status, { error: reason });
+}
+
+/**
+ * Updates the auth token and CORS allowlist of the running server
+ */
+export function setServerOptions(options: ServerOptions): void {
+	const previousToken = server?.listening ? getAuthToken() : null;
+	serverOptions = { ...serverOptions, ...options };
+
+	// Let RuneLite pick up the new token
+	if (server?.listening && getAuthToken() !== previousToken) {
+		writeDiscoveryFile(serverOptions.host || '127.0.0.1', currentPort);
+	}
+}
+
+/**
+ * Starts the HTTP server to receive state from RuneLite.
+ * If the port is in use, up to MAX_PORT_FALLBACKS following ports are tried.
+ */
+export function startServer(port: number = 8085, options: ServerOptions = serverOptions): void {
 	if (server) {
 		console.log('[StateServer] Server already running');
 		return;
 	}
 
 	currentPort = port;
+	serverOptions = options;
+
+	// Clear a previous "no port" error from the keys
+	if (serverError !== null) {
+		serverError = null;
+		notifyListeners();
+	}
 
 	server = http.createServer((req, res) => {
-		// Set CORS headers
-		res.setHeader('Access-Control-Allow-Origin', '*');
-		res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-		res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+		const origin = req.headers.origin;
+
+		// Browsers always send Origin on cross-site requests; only allowlisted pages may talk to us
+		if (origin) {
+			if (!serverOptions.allowedOrigins?.includes(origin)) {
+				rejectRequest(req, res, 403, 'Origin not allowed');
+				return;
+			}
+			res.setHeader('Access-Control-Allow-Origin', origin);
+			res.setHeader('Vary', 'Origin');
+			res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, OPTIONS');
+			res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Auth-Token, X-Client-Id');
+		}
 
 		// Handle preflight
 		if (req.method === 'OPTIONS') {
@@ -111,62 +1153,125 @@ export function startServer(port: number = 8085): void {
 			return;
 		}
 
-		// Only accept POST to /state
-		if (req.method === 'POST' && req.url === '/state') {
-			let body = '';
-
-			req.on('data', chunk => {
-				body += chunk.toString();
-			});
-
-			req.on('end', () => {
-				try {
-					const newState = JSON.parse(body) as RuneLiteState;
-					currentState = newState;
-					console.log('[StateServer] Received state update:', JSON.stringify(newState));
-					notifyListeners();
-					res.writeHead(200, { 'Content-Type': 'application/json' });
-					res.end(JSON.stringify({ success: true }));
-				} catch (error) {
-					console.error('[StateServer] Error parsing state:', error);
-					res.writeHead(400, { 'Content-Type': 'application/json' });
-					res.end(JSON.stringify({ error: 'Invalid JSON' }));
-				}
-			});
+		const token = getRequestToken(req);
+		if (!token || !tokensMatch(getAuthToken(), token)) {
+			rejectRequest(req, res, 401, 'Unauthorized');
+			return;
+		}
+
+		const url = new URL(req.url || '/', 'http://localhost');
+		const ackMatch = url.pathname.match(/^\/commands\/([^/]+)\/ack$/);
+
+		// POST replaces the state, PATCH (or POST with ?merge=true) deep-merges a delta
+		if ((req.method === 'POST' || req.method === 'PATCH') && url.pathname === '/state') {
+			if (isReplaying()) {
+				sendJson(res, 409, { error: 'Replay in progress' });
+				return;
+			}
+
+			const merge = req.method === 'PATCH' || url.searchParams.get('merge') === 'true';
+			readBody(req, body => handleStateUpdate(req, url, body, merge, res));
+		} else if (req.method === 'POST' && url.pathname === '/tick') {
+			if (isReplaying()) {
+				sendJson(res, 409, { error: 'Replay in progress' });
+				return;
+			}
+
+			readBody(req, body => handleTick(req, url, body, res));
+		} else if (req.method === 'GET' && url.pathname === '/state') {
+			sendJson(res, 200, getState(getRequestClientId(req, url)));
+		} else if (req.method === 'GET' && url.pathname === '/health') {
+			sendJson(res, 200, getHealth());
+		} else if (req.method === 'GET' && url.pathname === '/metrics') {
+			sendJson(res, 200, getMetrics());
+		} else if (req.method === 'GET' && url.pathname === '/commands') {
+			handleCommandPoll(req, res, url);
+		} else if (req.method === 'POST' && ackMatch) {
+			readBody(req, body => handleCommandAck(decodeURIComponent(ackMatch[1]), body, res));
+		} else if (req.method === 'GET' && url.pathname === '/recording') {
+			sendJson(res, 200, getRecordingStatus());
+		} else if (req.method === 'POST' && (url.pathname === '/recording/start' || url.pathname === '/recording/stop')) {
+			readBody(req, body => handleRecordingControl(url.pathname === '/recording/start', body, res));
+		} else if (req.method === 'GET' && url.pathname === '/replay') {
+			sendJson(res, 200, { replay: getReplayStatus(), sessions: listSessions() });
+		} else if (req.method === 'POST' && url.pathname.startsWith('/replay/')) {
+			readBody(req, body => handleReplayControl(url.pathname.slice('/replay/'.length), body, res));
 		} else {
-			res.writeHead(404, { 'Content-Type': 'application/json' });
-			res.end(JSON.stringify({ error: 'Not found' }));
+			sendJson(res, 404, { error: 'Not found' });
 		}
 	});
 
-	server.listen(port, () => {
-		console.log(`[StateServer] HTTP server listening on port ${port}`);
+	const host = options.host || '127.0.0.1';
+	const lastPort = port + MAX_PORT_FALLBACKS;
+
+	server.on('listening', () => {
+		startedAt = Date.now();
+		console.log(`[StateServer] HTTP server listening on ${host}:${currentPort}`);
+		writeDiscoveryFile(host, currentPort);
 	});
 
 	server.on('error', (error: NodeJS.ErrnoException) => {
 		console.error('[StateServer] Server error:', error);
-		if (error.code === 'EADDRINUSE') {
-			console.log(`[StateServer] Port ${port} is in use, trying ${port + 1}`);
-			server = null;
-			startServer(port + 1);
+		if (!server || server.listening) {
+			return;
 		}
+
+		if (error.code === 'EADDRINUSE' && currentPort < lastPort) {
+			console.log(`[StateServer] Port ${currentPort} is in use, trying ${currentPort + 1}`);
+			currentPort++;
+			server.listen(currentPort, host);
+			return;
+		}
+
+		serverError = error.code === 'EADDRINUSE'
+			? `Ports ${port}-${lastPort} are all in use`
+			: `Could not listen on port ${currentPort}: ${error.message}`;
+		console.error(`[StateServer] ${serverError}`);
+		server = null;
+		notifyListeners();
 	});
+
+	server.listen(port, host);
 }
 
 /**
  * Stops the HTTP server
  */
 export function stopServer(): void {
+	for (const entry of clients.values()) {
+		if (entry.staleTimer) {
+			clearTimeout(entry.staleTimer);
+			entry.staleTimer = null;
+		}
+		entry.connected = false;
+	}
+
 	if (server) {
 		server.close();
 		server = null;
+		removeDiscoveryFile();
 		console.log('[StateServer] Server stopped');
+		notifyListeners();
 	}
 }
 
+/**
+ * Gets why the server could not start, or null if it has not failed
+ */
+export function getServerError(): string | null {
+	return serverError;
+}
+
 /**
  * Gets the current server port
  */
 export function getServerPort(): number {
 	return currentPort;
 }
+
+/**
+ * Gets the number of state updates rejected for invalid JSON or fields
+ */
+export function getRejectedUpdateCount(): number {
+	return rejectedUpdateCount;
+}
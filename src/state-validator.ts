@@ -0,0 +1,281 @@
+import type { RuneLiteState } from './state-server';
+import { SKILL_NAMES } from './skills';
+
+/**
+ * A single field that failed validation
+ */
+export type ValidationError = {
+	path: string;
+	message: string;
+};
+
+/**
+ * Result of validating an incoming state payload
+ */
+export type ValidationResult = {
+	state: RuneLiteState;
+	errors: ValidationError[];
+};
+
+/**
+ * Schema describing the shape of a single field
+ */
+type FieldSchema =
+	| { type: 'number' | 'string' | 'boolean' }
+	| { type: 'enum'; values: readonly string[] }
+	| { type: 'array'; items: FieldSchema }
+	| { type: 'object'; fields: { [key: string]: FieldSchema }; required?: readonly string[] };
+
+const NUMBER: FieldSchema = { type: 'number' };
+const STRING: FieldSchema = { type: 'string' };
+const BOOLEAN: FieldSchema = { type: 'boolean' };
+
+/**
+ * Equipment slot keys, mirroring the EquipmentSlot type
+ */
+const EQUIPMENT_SLOTS = ['head', 'cape', 'amulet', 'weapon', 'body', 'shield', 'legs', 'gloves', 'boots', 'ring', 'ammo'];
+
+/**
+ * Schema for the level and XP of one skill
+ */
+const SKILL_SCHEMA: FieldSchema = {
+	type: 'object',
+	fields: {
+		level: NUMBER,
+		boostedLevel: NUMBER,
+		xp: NUMBER,
+	},
+	required: ['level', 'boostedLevel', 'xp'],
+};
+
+/**
+ * Schema for the item in one equipment slot
+ */
+const EQUIPMENT_ITEM_SCHEMA: FieldSchema = {
+	type: 'object',
+	fields: {
+		id: NUMBER,
+		name: STRING,
+		quantity: NUMBER,
+		charges: {
+			type: 'array',
+			items: {
+				type: 'object',
+				fields: {
+					name: STRING,
+					count: NUMBER,
+				},
+				required: ['name', 'count'],
+			},
+		},
+		icon: STRING,
+	},
+	required: ['id', 'quantity'],
+};
+
+/**
+ * Runtime schema mirroring the RuneLiteState type
+ */
+const STATE_SCHEMA: FieldSchema = {
+	type: 'object',
+	fields: {
+		player: {
+			type: 'object',
+			fields: {
+				name: STRING,
+				world: NUMBER,
+			},
+			required: ['name', 'world'],
+		},
+		stats: {
+			type: 'object',
+			fields: {
+				hp: {
+					type: 'object',
+					fields: {
+						current: NUMBER,
+						max: NUMBER,
+						status: { type: 'enum', values: ['poisoned', 'venomed', 'diseased', 'poisoned_diseased', 'venomed_diseased'] },
+					},
+					required: ['current', 'max'],
+				},
+				prayer: {
+					type: 'object',
+					fields: {
+						current: NUMBER,
+						max: NUMBER,
+						bonus: NUMBER,
+					},
+					required: ['current', 'max'],
+				},
+				runEnergy: NUMBER,
+				runEnabled: BOOLEAN,
+				specialAttack: NUMBER,
+				specialAttackEnabled: BOOLEAN,
+				specialAttackAvailable: BOOLEAN,
+				skills: {
+					type: 'object',
+					fields: Object.fromEntries(SKILL_NAMES.map(skill => [skill, SKILL_SCHEMA])),
+				},
+			},
+		},
+		activePrayers: { type: 'array', items: STRING },
+		quickPrayersEnabled: BOOLEAN,
+		quickPrayerSelection: { type: 'array', items: STRING },
+		activeTab: STRING,
+		inventory: {
+			type: 'array',
+			items: {
+				type: 'object',
+				fields: {
+					slot: NUMBER,
+					id: NUMBER,
+					name: STRING,
+					quantity: NUMBER,
+					icon: STRING,
+				},
+				required: ['slot', 'id', 'quantity'],
+			},
+		},
+		equipment: {
+			type: 'object',
+			fields: Object.fromEntries(EQUIPMENT_SLOTS.map(slot => [slot, EQUIPMENT_ITEM_SCHEMA])),
+		},
+		tick: NUMBER,
+		attack: {
+			type: 'object',
+			fields: {
+				speed: NUMBER,
+				lastTick: NUMBER,
+			},
+			required: ['speed'],
+		},
+		timers: {
+			type: 'array',
+			items: {
+				type: 'object',
+				fields: {
+					id: STRING,
+					remaining: NUMBER,
+					duration: NUMBER,
+					unit: { type: 'enum', values: ['ticks', 'seconds'] },
+					icon: STRING,
+				},
+				required: ['id', 'remaining', 'duration'],
+			},
+		},
+		opponent: {
+			type: 'object',
+			fields: {
+				name: STRING,
+				healthRatio: NUMBER,
+				healthScale: NUMBER,
+				hp: {
+					type: 'object',
+					fields: {
+						current: NUMBER,
+						max: NUMBER,
+					},
+					required: ['current', 'max'],
+				},
+			},
+			required: ['name', 'healthRatio', 'healthScale'],
+		},
+		focused: BOOLEAN,
+	},
+};
+
+/**
+ * Describes the JSON type of a value for error messages
+ */
+function describe(value: unknown): string {
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return 'array';
+	return typeof value;
+}
+
+/**
+ * Joins a parent path and a child key
+ */
+function joinPath(parent: string, key: string): string {
+	return parent ? `${parent}.${key}` : key;
+}
+
+/**
+ * Validates a value against a schema, returning the sanitized value or undefined if it must be dropped
+ */
+function validateField(value: unknown, schema: FieldSchema, path: string, errors: ValidationError[]): unknown {
+	switch (schema.type) {
+		case 'number':
+			if (typeof value !== 'number' || !Number.isFinite(value)) {
+				errors.push({ path, message: `expected number, got ${describe(value)}` });
+				return undefined;
+			}
+			return value;
+		case 'string':
+		case 'boolean':
+			if (typeof value !== schema.type) {
+				errors.push({ path, message: `expected ${schema.type}, got ${describe(value)}` });
+				return undefined;
+			}
+			return value;
+		case 'enum':
+			if (typeof value !== 'string' || !schema.values.includes(value)) {
+				errors.push({ path, message: `expected one of ${schema.values.join(', ')}` });
+				return undefined;
+			}
+			return value;
+		case 'array': {
+			if (!Array.isArray(value)) {
+				errors.push({ path, message: `expected array, got ${describe(value)}` });
+				return undefined;
+			}
+			const items: unknown[] = [];
+			value.forEach((item, index) => {
+				const result = validateField(item, schema.items, `${path}[${index}]`, errors);
+				if (result !== undefined) {
+					items.push(result);
+				}
+			});
+			return items;
+		}
+		case 'object': {
+			if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+				errors.push({ path: path || '(root)', message: `expected object, got ${describe(value)}` });
+				return undefined;
+			}
+			const input = value as { [key: string]: unknown };
+			const output: { [key: string]: unknown } = {};
+			for (const [key, fieldValue] of Object.entries(input)) {
+				const fieldSchema = schema.fields[key];
+				if (!fieldSchema) {
+					errors.push({ path: joinPath(path, key), message: 'unknown field' });
+					continue;
+				}
+				const result = validateField(fieldValue, fieldSchema, joinPath(path, key), errors);
+				if (result !== undefined) {
+					output[key] = result;
+				}
+			}
+			// An object missing a required field is dropped entirely
+			for (const key of schema.required || []) {
+				if (!(key in output)) {
+					if (!(key in input)) {
+						errors.push({ path: joinPath(path, key), message: 'missing required field' });
+					}
+					return undefined;
+				}
+			}
+			return output;
+		}
+	}
+}
+
+/**
+ * Validates an incoming state payload, dropping any field that does not match the RuneLiteState type
+ */
+export function validateState(input: unknown): ValidationResult {
+	const errors: ValidationError[] = [];
+	const state = validateField(input, STATE_SCHEMA, '', errors) as RuneLiteState | undefined;
+	return { state: state || {}, errors };
+}
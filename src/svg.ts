@@ -0,0 +1,6 @@
+/**
+ * Escapes text for use inside SVG
+ */
+export function escapeXml(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -0,0 +1,290 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Theme id for the images that ship with the plugin
+ */
+export const DEFAULT_THEME = 'default';
+
+/**
+ * Per-key theme value meaning "use the theme chosen for all keys"
+ */
+export const GLOBAL_THEME = 'global';
+
+/**
+ * Folder themes are read from when none is configured
+ */
+const DEFAULT_THEMES_DIRECTORY = path.join(os.homedir(), '.runelite', 'streamdeck-themes');
+
+/**
+ * File in each theme folder that names the theme and maps asset names to image files
+ */
+const MANIFEST_FILE = 'theme.json';
+
+/**
+ * Delay before reloading after a theme file changes, so a burst of writes reloads once
+ */
+const RELOAD_DELAY_MS = 250;
+
+/**
+ * How often to check for a themes folder that does not exist yet, so it is watched once it is created
+ */
+const WATCH_RETRY_MS = 5000;
+
+/**
+ * Image types themes can use
+ */
+const IMAGE_TYPES: { [extension: string]: string } = {
+	'.png': 'image/png',
+	'.jpg': 'image/jpeg',
+	'.jpeg': 'image/jpeg',
+	'.gif': 'image/gif',
+	'.svg': 'image/svg+xml',
+};
+
+/**
+ * Contents of a theme.json
+ */
+type ThemeManifest = {
+	name?: string;
+	/** Image file for each asset name, relative to the theme folder */
+	assets?: { [asset: string]: string };
+};
+
+/**
+ * Listener called when themes change and keys need redrawing
+ */
+export type ThemeListener = () => void;
+
+/**
+ * Folder themes are read from
+ */
+let themesDirectory = DEFAULT_THEMES_DIRECTORY;
+
+/**
+ * Theme used by keys that do not choose their own
+ */
+let globalTheme = DEFAULT_THEME;
+
+/**
+ * Parsed manifests by theme id; null for a theme that is missing or invalid
+ */
+const manifests = new Map<string, ThemeManifest | null>();
+
+/**
+ * Cached images as base64 data URI, by theme and asset
+ */
+const cachedImages = new Map<string, string>();
+
+/**
+ * Registered theme listeners
+ */
+const listeners = new Set<ThemeListener>();
+
+/**
+ * Whether theme options have been applied since startup
+ */
+let configured = false;
+
+/**
+ * Watcher on the themes folder, the timer of a pending reload, and the timer waiting for the folder to be created
+ */
+let watcher: fs.FSWatcher | null = null;
+let reloadTimer: NodeJS.Timeout | null = null;
+let retryTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Reads an image file as a base64 data URI, typed by its extension
+ */
+export function readImageFile(file: string): string {
+	const type = IMAGE_TYPES[path.extname(file).toLowerCase()] || 'image/png';
+	return `data:${type};base64,${fs.readFileSync(file).toString('base64')}`;
+}
+
+/**
+ * Gets a theme's manifest, reading it the first time it is needed
+ */
+function getManifest(theme: string): ThemeManifest | null {
+	if (manifests.has(theme)) {
+		return manifests.get(theme) || null;
+	}
+
+	let manifest: ThemeManifest | null = null;
+	try {
+		const contents = JSON.parse(fs.readFileSync(path.join(themesDirectory, theme, MANIFEST_FILE), 'utf8'));
+		if (contents && typeof contents === 'object' && !Array.isArray(contents)) {
+			manifest = contents;
+		}
+	} catch (error) {
+		console.log('[Themes] Error loading theme:', theme, error);
+	}
+
+	manifests.set(theme, manifest);
+	return manifest;
+}
+
+/**
+ * Loads an image from the plugin's own images
+ */
+function loadBuiltInImage(builtIn: string): string {
+	const key = `${DEFAULT_THEME}:${builtIn}`;
+	const cached = cachedImages.get(key);
+	if (cached) return cached;
+
+	try {
+		const dataUri = readImageFile(path.join(process.cwd(), 'imgs', 'actions', builtIn));
+		cachedImages.set(key, dataUri);
+		return dataUri;
+	} catch (error) {
+		console.log('[Themes] Error loading image:', builtIn, error);
+		return '';
+	}
+}
+
+/**
+ * Loads an asset for a key, from the key's theme or the global one. Assets the theme does not provide,
+ * or cannot be read, fall back to the built-in image, given as a path under imgs/actions.
+ */
+export function loadThemeImage(asset: string, builtIn: string, theme?: string): string {
+	const themeId = !theme || theme === GLOBAL_THEME ? globalTheme : theme;
+	if (themeId === DEFAULT_THEME) {
+		return loadBuiltInImage(builtIn);
+	}
+
+	const key = `${themeId}:${asset}`;
+	const cached = cachedImages.get(key);
+	if (cached !== undefined) {
+		return cached || loadBuiltInImage(builtIn);
+	}
+
+	let dataUri = '';
+	const file = getManifest(themeId)?.assets?.[asset];
+	if (typeof file === 'string') {
+		try {
+			dataUri = readImageFile(path.resolve(themesDirectory, themeId, file));
+		} catch (error) {
+			console.log('[Themes] Error loading theme image:', themeId, asset, error);
+		}
+	}
+
+	// An empty entry remembers that the theme does not provide the asset
+	cachedImages.set(key, dataUri);
+	return dataUri || loadBuiltInImage(builtIn);
+}
+
+/**
+ * Lists the themes in the themes folder
+ */
+export function getThemes(): { id: string; name: string }[] {
+	let entries: fs.Dirent[];
+	try {
+		entries = fs.readdirSync(themesDirectory, { withFileTypes: true });
+	} catch {
+		return [];
+	}
+
+	return entries
+		.filter(entry => entry.isDirectory() && fs.existsSync(path.join(themesDirectory, entry.name, MANIFEST_FILE)))
+		.map(entry => {
+			const name = getManifest(entry.name)?.name;
+			return { id: entry.name, name: typeof name === 'string' && name ? name : entry.name };
+		});
+}
+
+/**
+ * Registers a listener called whenever keys should be redrawn with new theme images
+ */
+export function addThemeListener(listener: ThemeListener): void {
+	listeners.add(listener);
+}
+
+/**
+ * Removes a theme listener
+ */
+export function removeThemeListener(listener: ThemeListener): void {
+	listeners.delete(listener);
+}
+
+/**
+ * Forgets loaded themes and images and lets keys redraw
+ */
+function reloadThemes(): void {
+	manifests.clear();
+	cachedImages.clear();
+	for (const listener of listeners) {
+		try {
+			listener();
+		} catch (error) {
+			console.error('[Themes] Error in listener:', error);
+		}
+	}
+}
+
+/**
+ * Watches the themes folder so edited theme files show up without restarting.
+ * While the folder does not exist, it is checked for periodically and watched once created.
+ */
+function watchThemesDirectory(): void {
+	if (watcher) {
+		watcher.close();
+		watcher = null;
+	}
+	if (retryTimer) {
+		clearTimeout(retryTimer);
+		retryTimer = null;
+	}
+
+	try {
+		watcher = fs.watch(themesDirectory, { recursive: true }, () => {
+			if (reloadTimer) {
+				clearTimeout(reloadTimer);
+			}
+			reloadTimer = setTimeout(() => {
+				reloadTimer = null;
+				console.log('[Themes] Theme files changed, reloading');
+				reloadThemes();
+			}, RELOAD_DELAY_MS);
+		});
+		watcher.on('error', (error) => {
+			console.log('[Themes] Error watching themes folder:', error);
+			// The folder may have been removed; wait for it to come back
+			watchThemesDirectory();
+		});
+	} catch {
+		// The folder does not exist yet; built-in images are used until it is created
+		watcher = null;
+		retryTimer = setTimeout(() => {
+			retryTimer = null;
+			const created = fs.existsSync(themesDirectory);
+			watchThemesDirectory();
+			if (created) {
+				console.log('[Themes] Themes folder created, reloading');
+				reloadThemes();
+			}
+		}, WATCH_RETRY_MS);
+	}
+}
+
+/**
+ * Applies the themes folder and global theme from the plugin settings
+ */
+export function setThemeOptions(options: { directory?: string; theme?: string }): void {
+	const configuredDirectory = options.directory?.trim();
+	const directory = configuredDirectory ? configuredDirectory.replace(/^~(?=$|[\\/])/, os.homedir()) : DEFAULT_THEMES_DIRECTORY;
+	const theme = options.theme?.trim() || DEFAULT_THEME;
+	const directoryChanged = !configured || directory !== themesDirectory;
+
+	if (!directoryChanged && theme === globalTheme) {
+		return;
+	}
+
+	configured = true;
+	themesDirectory = directory;
+	globalTheme = theme;
+
+	if (directoryChanged) {
+		watchThemesDirectory();
+	}
+	reloadThemes();
+}